@@ -0,0 +1,106 @@
+import { jobHandler } from "@flatfile/plugin-job-handler";
+import api, { Flatfile } from "@flatfile/api";
+import { getWorkbook } from "../../../support/utils/get.workbook";
+import { ProgressTracker } from "../../../support/utils/progress.tracker";
+import { StageInference } from "../../../support/utils/common/stages";
+import { projectsSheet as projectsBlueprint } from "../blueprints/sheets/projects.sheet";
+import { collectStages, stageMappingKey } from "../jobs/collect.stages.job";
+
+/**
+ * Action declaration for applying the Stage Mapping sheet onto the projects.
+ */
+export const applyStageMappingDeclaration: Flatfile.Action = {
+  "label": "Apply Stage Mapping",
+  "mode": "foreground",
+  "description": "Set the stage of every project from the Coperniq stage mapped to its workflow and legacy stage",
+  "operation": "apply-stage-mapping",
+  "primary": true
+};
+
+/**
+ * Handler for the apply stage mapping action.
+ * Collects the stages first so that pairs imported since the last collection show up in the mapping,
+ * then sets the `stage` of every project from the Coperniq stage mapped to its `workflow` and `legacy_stage`.
+ * Only stages declared in the projects sheet `metadata.stages` are applied. Projects whose pair has no stage
+ * or an unknown one keep their stage and are counted in the outcome: their pair is kept in `metadata.unmappedStage`
+ * for the projects hook to flag their legacy stage with an error, and removed once the pair is mapped.
+ * The pairs are flagged in the Stage Mapping sheet.
+ */
+export const applyStageMappingHandler = jobHandler(`*:${applyStageMappingDeclaration.operation}`, async (event) => {
+  const { jobId, workbookId } = event.context;
+
+  // Acknowledge the job
+  await api.jobs.ack(jobId, {
+    info: "Starting job to apply the stage mapping",
+    progress: 5,
+  });
+  const progress = new ProgressTracker(jobId)
+    .add("Collecting stages", "l")
+    .add("Applying stages", "l");
+
+  const knownWorkbook = await getWorkbook(workbookId);
+  const projectsSheet = knownWorkbook.sheet("projects");
+  const mappingSheet = knownWorkbook.sheet("stage-mapping");
+  const { added } = await collectStages(knownWorkbook, progress);
+  await progress.complete("Collecting stages");
+
+  // Load the Coperniq stage of every pair mapped to a known stage
+  const stageInference = new StageInference(projectsBlueprint.metadata.stages);
+  const stages = new Map(
+    (await mappingSheet.getAllRecords().all())
+      .map((mapping): [string, string] => [
+        stageMappingKey(mapping["workflow"], mapping["legacy_stage"]),
+        stageInference.canonical(mapping["stage"]),
+      ])
+      .filter(([, stage]) => stage),
+  );
+
+  // Set the stage of every project page by page, counting the projects and pairs that aren't mapped
+  // and keeping the pair of the unmapped projects in their metadata, so that they are flagged
+  let applied = 0;
+  let unmapped = 0;
+  const unmappedPairs = new Set<string>();
+  await projectsSheet
+    .getAllRecords()
+    .track(progress, "Applying stages", (await projectsSheet.counts()).total)
+    .each(async (projects) => {
+      const updates: Flatfile.RecordWithLinks[] = [];
+      projects.forEach(project => {
+        const pair = stageMappingKey(project["workflow"], project["legacy_stage"]);
+        const stage = stages.get(pair);
+        const { unmappedStage, ...metadata } = (project.metadata ?? {}) as { unmappedStage?: string };
+        if (!stage) {
+          unmapped++;
+          unmappedPairs.add(pair);
+          if (unmappedStage !== pair) {
+            updates.push({ id: project.id as string, values: {}, metadata: { ...metadata, unmappedStage: pair } });
+          }
+        } else if (project["stage"] !== stage || unmappedStage !== undefined) {
+          if (project["stage"] !== stage) {
+            applied++;
+          }
+          updates.push({ id: project.id as string, values: { stage: { value: stage } }, metadata });
+        }
+      });
+      if (updates.length > 0) {
+        await api.records.update(projectsSheet.id, updates);
+      }
+    });
+
+  // Mark the job as complete, failing it while some pairs aren't mapped
+  const outcome = {
+    heading: unmapped > 0 ? "Stage mapping incomplete" : "Stage mapping applied",
+    message: [
+      `${applied} projects had their stage updated.`,
+      ...(unmapped > 0
+        ? [`${unmapped} projects in ${unmappedPairs.size} workflow and legacy stage pairs have no known Coperniq stage, fix the pairs flagged in the Stage Mapping sheet.`]
+        : []),
+      ...(added > 0 ? [`${added} new workflow and legacy stage pairs were added to the Stage Mapping sheet.`] : []),
+    ].join("\n"),
+  };
+  if (unmapped > 0) {
+    await api.jobs.fail(jobId, { outcome });
+  } else {
+    await api.jobs.complete(jobId, { outcome });
+  }
+});
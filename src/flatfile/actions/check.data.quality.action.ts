@@ -0,0 +1,142 @@
+import { jobHandler } from "@flatfile/plugin-job-handler";
+import api, { Flatfile } from "@flatfile/api";
+import { getWorkbook } from "../../../support/utils/get.workbook";
+import { ProgressTracker } from "../../../support/utils/progress.tracker";
+import { formatRecord, SimpleRecord } from "../../../support/utils/records";
+import { QualityReport } from "../../../support/utils/common/quality";
+
+/**
+ * Action declaration for the data quality check.
+ * This defines a foreground action that will be available in the UI
+ * to measure how migration-ready the projects are before digging into rows.
+ */
+export const checkDataQualityDeclaration: Flatfile.Action = {
+  "label": "Check Data Quality",
+  "mode": "foreground",
+  "description": "Measure the fill rate, error rate and distinct values of every field and score the completeness of each project",
+  "operation": "check-data-quality"
+};
+
+/**
+ * Field of the projects sheet holding the completeness score of each project
+ */
+const SCORE_FIELD = "completeness_score";
+
+/**
+ * Handler for the check data quality action.
+ * Reads the projects page by page with their error messages, writes the completeness score of every project whose
+ * score changed, then replaces the rows of the Data Quality sheet with the quality of every field, of every group
+ * declared in the projects sheet `metadata.qualityGroups`, and of all these groups together.
+ */
+export const checkDataQualityHandler = jobHandler(`*:${checkDataQualityDeclaration.operation}`, async (event) => {
+  const { jobId, workbookId, sheetId } = event.context;
+
+  // Acknowledge the job
+  await api.jobs.ack(jobId, {
+    info: "Starting job to check data quality",
+    progress: 5,
+  });
+  const progress = new ProgressTracker(jobId).add("Scoring projects", "l").add("Writing the report", "s");
+
+  const knownWorkbook = await getWorkbook(workbookId);
+  const projectsSheet = knownWorkbook.sheetById(sheetId);
+  const qualitySheet = knownWorkbook.sheet("data-quality");
+  const { total } = await projectsSheet.counts();
+  const report = new QualityReport(
+    projectsSheet.fields
+      .filter(field => field.key !== SCORE_FIELD)
+      .map(field => ({ key: field.key, label: field.label, group: field.metadata?.group })),
+    { groups: projectsSheet.config.metadata?.qualityGroups },
+  );
+
+  // Add every project to the report and update the scores that changed, page by page
+  let scored = 0;
+  await projectsSheet
+    .getAllRawRecords({ includeMessages: true })
+    .track(progress, "Scoring projects", total)
+    .each(async (projects) => {
+      const scores = projects.map(project => ({
+        id: project.id,
+        current: project.values[SCORE_FIELD]?.value,
+        score: report.add(valuesOf(project), errorsOf(project)),
+      }));
+      const updates = scores
+        .filter(({ current, score }) => current !== score)
+        .map(({ id, score }) => ({ id, values: { [SCORE_FIELD]: { value: score } } }));
+      if (updates.length > 0) {
+        await api.records.update(sheetId, updates);
+        scored += updates.length;
+      }
+    });
+
+  // Replace the previous report
+  await progress.report("Writing the report", 10);
+  const checkedAt = new Date().toISOString();
+  const rows: SimpleRecord[] = [
+    { scope: "Overall", completeness: percent(report.completeness()), projects: report.count, checked_at: checkedAt },
+    ...report.groupQuality().map(({ group, completeness }) => ({
+      scope: "Group",
+      group,
+      completeness: percent(completeness),
+      projects: report.count,
+      checked_at: checkedAt,
+    })),
+    ...report.fieldQuality().map(({ key, label, group, fillRate, errorRate, distinct }) => ({
+      scope: "Field",
+      group,
+      field: `${label} (${key})`,
+      fill_rate: percent(fillRate),
+      error_rate: percent(errorRate),
+      distinct_values: distinct,
+      projects: report.count,
+      checked_at: checkedAt,
+    })),
+  ];
+  const previous = await qualitySheet.getAllRecords().all();
+  if (previous.length > 0) {
+    await api.records.delete(qualitySheet.id, { ids: previous.map(row => row.id as string) });
+  }
+  await api.records.insert(qualitySheet.id, rows.map(formatRecord));
+  await progress.complete("Writing the report");
+
+  // Mark the job as complete, summarizing the completeness of every group
+  await api.jobs.complete(jobId, {
+    info: `Completed job to check data quality: ${report.count} projects, ${scored} scores updated`,
+    outcome: {
+      heading: "Data quality checked",
+      message: [
+        `${report.count} projects are ${percent(report.completeness())}% complete, see the Data Quality sheet.`,
+        ...report.groupQuality().map(({ group, completeness }) => `${group}: ${percent(completeness)}% complete`),
+      ].join("\n"),
+    },
+  });
+});
+
+/**
+ * Returns the values of a record by field key
+ *
+ * @param record - The record as returned by the API
+ */
+function valuesOf(record: Flatfile.Record_): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record.values).map(([key, cell]) => [key, cell.value]));
+}
+
+/**
+ * Returns the keys of the fields of a record with an error message
+ *
+ * @param record - The record as returned by the API, with its messages
+ */
+function errorsOf(record: Flatfile.Record_): string[] {
+  return Object.entries(record.values)
+    .filter(([, cell]) => (cell.messages ?? []).some(message => message.type === "error"))
+    .map(([key]) => key);
+}
+
+/**
+ * Converts a rate from 0 to 1 into a percentage with one decimal
+ *
+ * @param rate - The rate
+ */
+function percent(rate: number): number {
+  return Math.round(rate * 1000) / 10;
+}
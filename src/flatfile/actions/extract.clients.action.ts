@@ -1,5 +1,19 @@
 import { jobHandler } from "@flatfile/plugin-job-handler";
 import api, { Flatfile } from "@flatfile/api";
+import { getWorkbook } from "../../../support/utils/get.workbook";
+import { ProgressTracker } from "../../../support/utils/progress.tracker";
+import { formatRecord, formatUpdate, RecordWithMeta, SimpleRecord } from "../../../support/utils/records";
+import { asDate } from "../../../support/utils/casting";
+import {
+  ConflictPolicy,
+  ConflictResolver,
+  FieldConflict,
+  Identity,
+  IdentityMatcher,
+  MatchField,
+  Similarity,
+} from "../../../support/utils/common/matching";
+import { AddressParser } from "../../../support/utils/common/address";
 
 /**
  * Action declaration for the client extraction process.
@@ -14,14 +28,90 @@ export const extractClientsDeclaration: Flatfile.Action = {
   "primary": true
 };
 
+/**
+ * Client fields compared to decide whether an existing client changed
+ */
+const CLIENT_FIELDS = ["primary_name", "primary_phone", "address", "primary_email", "possible_duplicates"];
+
+/**
+ * Fields used to decide whether two projects belong to the same client.
+ * Projects only merge on a shared email or phone, similar names and addresses alone are flagged for review.
+ * Candidates are found by email, phone, last name and ZIP plus street number.
+ * The merge and review thresholds are read from the clients sheet `metadata.matching`.
+ */
+const CLIENT_MATCH_FIELDS: MatchField[] = [
+  { key: "primary_email", weight: 0.4, compare: "exact", decisive: true, positiveOnly: true, normalize: (v) => Similarity.normalizeEmail(v) },
+  { key: "primary_phone", weight: 0.3, compare: "exact", anchor: true, positiveOnly: true, normalize: (v) => Similarity.normalizePhone(v) },
+  { key: "primary_name", weight: 0.2, compare: "fuzzy", normalize: (v) => Similarity.normalizeName(v), block: (v) => [Similarity.lastName(v)] },
+  { key: "address", weight: 0.1, compare: "fuzzy", normalize: (v) => normalizeAddress(v), block: (v) => blockAddress(v) },
+];
+
+/**
+ * Secondary contact lists of a project, by the client match field they hold more values of.
+ * Used when the clients sheet sets `metadata.secondaryContacts`, so that a project listing another project's
+ * email or phone among its secondary contacts resolves to the same client.
+ */
+const SECONDARY_CONTACT_FIELDS: Record<string, string> = {
+  primary_email: "other_emails",
+  primary_phone: "other_phones",
+  primary_name: "other_names",
+};
+
+/**
+ * Client fields that several projects of one client may disagree on, with the normalizers deciding
+ * whether two values really differ. The value kept is picked by the clients sheet `metadata.conflictPolicy`.
+ */
+const CLIENT_CONFLICT_FIELDS: Record<string, (value: unknown) => string> = {
+  primary_name: (v) => Similarity.normalizeName(v),
+  primary_phone: (v) => Similarity.normalizePhone(v) || String(v).trim(),
+  address: (v) => normalizeAddress(v),
+};
+
+/**
+ * Normalizes an address for comparison: its parsed and USPS-normalized form when it can be parsed,
+ * so that "123 Main Street, Springfield, Illinois" and "123 MAIN ST. SPRINGFIELD IL" are one address
+ *
+ * @param value - The address of a project
+ */
+function normalizeAddress(value: unknown): string {
+  return AddressParser.key(value) || Similarity.normalizeAddress(value);
+}
+
+/**
+ * Returns the blocking key of an address: its ZIP and street number, empty when either is missing
+ *
+ * @param value - The address of a project
+ */
+function blockAddress(value: unknown): string[] {
+  const address = AddressParser.parse(value);
+  const number = address?.street.split(" ")[0] ?? "";
+  return address?.zip && /^\d/.test(number) ? [`${address.zip.substring(0, 5)} ${number.toLowerCase()}`] : [];
+}
+
+/**
+ * A client extracted from the projects, with the client fields its projects disagree on
+ */
+interface Client {
+  values: SimpleRecord;
+  conflicts: FieldConflict[];
+}
+
+/**
+ * Maximum number of conflicting clients detailed in the job outcome
+ */
+const MAX_REPORTED_CONFLICTS = 20;
+
 /**
  * Handler for the extract clients action.
- * This job processes project records to create a unique list of clients
- * by extracting client information from project entries.
+ * This job processes project records to upsert a unique list of clients, resolving projects to clients
+ * by email, phone, name and address (and optionally the secondary contacts), then links every project to its client through the `client` reference field.
+ * Borderline matches are kept as separate clients and flagged in `possible_duplicates` for a human to confirm.
+ * When the projects of one client disagree on a client field, the conflicts are stored in the client's
+ * `metadata.conflicts` and summarized in the job outcome.
+ * Projects are read page by page so memory stays flat on large workbooks.
  */
-export const extractClientsHandler = jobHandler(`*:${extractClientsDeclaration.operation}`, async (event, tick) => {
+export const extractClientsHandler = jobHandler(`*:${extractClientsDeclaration.operation}`, async (event) => {
   // Extract necessary context from the event
-  const { payload } = event;
   const { jobId, workbookId, sheetId } = event.context;
 
   // Initialize the job and notify the user
@@ -29,62 +119,197 @@ export const extractClientsHandler = jobHandler(`*:${extractClientsDeclaration.o
     info: "Starting job to extract clients",
     progress: 5,
   });
+  const progress = new ProgressTracker(jobId)
+    .add("Loading projects", "l")
+    .add("Upserting clients", "s")
+    .add("Linking projects", "l");
 
-  // Object to store unique clients keyed by email to prevent duplicates
-  const uniqueClients = {};
-
-  // Load all project records from the projects sheet
-  await tick(10, "Loading projects");
-  const projectsResponse = await api.records.get(sheetId);
-  const projectRecords = projectsResponse.data.records;
-
-  // Find and load the clients sheet and its existing records
-  await tick(30, "Loading clients");
-  const sheetsListResponse = await api.sheets.list({ workbookId });
-  const sheetsList = sheetsListResponse.data;
-  const clientsSheet = sheetsList.find(sheet => sheet.slug === "clients");
-  const clientsResponse = await api.records.get(clientsSheet.id);
-  const clients = clientsResponse.data.records;
-
-  // Process each project to extract unique client information
-  await tick(50, "Extracting clients");
-  projectRecords.forEach(project => {
-    // Use email as unique identifier for clients
-    const projectEmail = project.values["primary_email"].value as string;
-    if (!uniqueClients[projectEmail]) {
-      // Create a new client entry if this email hasn't been seen before
-      uniqueClients[projectEmail] = { 
-        primary_name: {
-          value: project.values["primary_name"].value as string,
-        },
-        primary_phone: {
-          value: project.values["primary_phone"].value as string,
-        },
-        address: {
-          value: project.values["address"].value as string,
-        },
-        primary_email: {
-          value: projectEmail,
+  // Find the projects and clients sheets
+  const knownWorkbook = await getWorkbook(workbookId);
+  const projectsSheet = knownWorkbook.sheetById(sheetId);
+  const clientsSheet = knownWorkbook.sheet("clients");
+  const { total } = await projectsSheet.counts();
+
+  // Process each page of projects, resolving every project email to the email of its client
+  // and collecting the client values of every project
+  const { matching, conflictPolicy = ConflictPolicy.FIRST_SEEN, secondaryContacts = false } = clientsSheet.config.metadata ?? {};
+  const matchFields = secondaryContacts
+    ? CLIENT_MATCH_FIELDS.map(field => SECONDARY_CONTACT_FIELDS[field.key] ? { ...field, also: [SECONDARY_CONTACT_FIELDS[field.key]] } : field)
+    : CLIENT_MATCH_FIELDS;
+  const matcher = new IdentityMatcher<SimpleRecord>(matchFields, matching);
+  const resolver = new ConflictResolver(Object.keys(CLIENT_CONFLICT_FIELDS), conflictPolicy, CLIENT_CONFLICT_FIELDS);
+  const clientEmails = new Map<string, string>();
+  await projectsSheet
+    .getAllRecords()
+    .track(progress, "Loading projects", total)
+    .each((projects) => {
+      projects.forEach(project => {
+        const email = Similarity.normalizeEmail(project["primary_email"]);
+        if (!email) {
+          return;
         }
-      };
+        const clientEmail = clientEmailOf(matcher.resolve(project).identity);
+        clientEmails.set(email, clientEmail);
+        resolver.observe(clientEmail, project, { id: project.id as string, date: asDate(project["created_date"]) });
+      });
+    });
+  const uniqueClients = toClients(matcher, resolver);
+
+  // Compare against the existing clients so that only changed clients are touched
+  await progress.report("Upserting clients", 10);
+  const clients = await clientsSheet.getAllRecords().all();
+  const existingClients = new Map(clients.map(client => [Similarity.normalizeEmail(client["primary_email"]), client]));
+  const inserts: Client[] = [];
+  const updates: Flatfile.RecordWithLinks[] = [];
+  uniqueClients.forEach((client, email) => {
+    const existing = existingClients.get(email);
+    if (!existing) {
+      inserts.push(client);
+    } else if (hasChanges(existing, client)) {
+      updates.push({
+        id: existing.id as string,
+        values: formatRecord(client.values),
+        metadata: { ...existing.metadata, conflicts: client.conflicts },
+      });
     }
   });
+  const removals = clients
+    .filter(client => !uniqueClients.has(Similarity.normalizeEmail(client["primary_email"])))
+    .map(client => client.id as string);
 
-  // Clear existing clients if any exist
-  await tick(70, "Creating clients");
-  if (clients.length > 0) {
-    await api.records.delete(clientsSheet.id, {
-      ids: clients.map(client => client.id)
-    });
-    await tick(85, "Creating clients");
+  if (updates.length > 0) {
+    await api.records.update(clientsSheet.id, updates);
+  }
+  if (inserts.length > 0) {
+    const inserted = await api.records.insert(clientsSheet.id, inserts.map(client => formatRecord(client.values)));
+    // Metadata can't be inserted, so conflicts of new clients are written afterwards
+    const conflicted = inserted.data.records
+      .map(record => ({ id: record.id, client: uniqueClients.get(Similarity.normalizeEmail(record.values["primary_email"]?.value)) }))
+      .filter(({ client }) => client?.conflicts.length > 0)
+      .map(({ id, client }) => ({ id, values: {}, metadata: { conflicts: client.conflicts } }));
+    if (conflicted.length > 0) {
+      await api.records.update(clientsSheet.id, conflicted);
+    }
   }
+  if (removals.length > 0) {
+    await api.records.delete(clientsSheet.id, { ids: removals });
+  }
+  await progress.complete("Upserting clients");
 
-  // Insert the new unique client records
-  await api.records.insert(clientsSheet.id, Object.values(uniqueClients));
+  // Point every project at its client page by page, skipping projects that are already linked
+  let linked = 0;
+  await projectsSheet
+    .getAllRecords()
+    .track(progress, "Linking projects", total)
+    .each(async (projects) => {
+      const links = projects
+        .map(project => ({
+          id: project.id,
+          client: clientEmails.get(Similarity.normalizeEmail(project["primary_email"])),
+          current: project["client"],
+        }))
+        .filter(({ client, current }) => client && current !== client)
+        .map(({ id, client }) => ({ id, client }));
+      if (links.length > 0) {
+        await api.records.update(sheetId, links.map(formatUpdate));
+        linked += links.length;
+      }
+    });
 
-  // Mark the job as complete
-  await tick(100, "Done");
+  // Mark the job as complete, reporting the clients whose projects disagree
+  const summary = `${inserts.length} created, ${updates.length} updated, ${removals.length} removed, ${linked} projects linked`;
   await api.jobs.complete(jobId, {
-    info: "Completed job to extract clients",
+    info: `Completed job to extract clients: ${summary}`,
+    outcome: {
+      heading: "Clients extracted",
+      message: [summary, ...describeConflicts(uniqueClients, conflictPolicy)].join("\n"),
+    },
   });
-});
\ No newline at end of file
+});
+
+/**
+ * Returns the email a client is keyed by: the normalized email of the first project resolved to it
+ *
+ * @param identity - The resolved client identity
+ */
+function clientEmailOf(identity: Identity<SimpleRecord>): string {
+  return Similarity.normalizeEmail(identity.record["primary_email"]);
+}
+
+/**
+ * Builds one client per resolved identity, keyed by client email,
+ * listing the borderline matches of each client in `possible_duplicates`
+ * and the fields its projects disagree on in `conflicts`
+ *
+ * @param matcher - The matcher every project has been resolved through
+ * @param resolver - The resolver holding the client values of every project
+ */
+function toClients(matcher: IdentityMatcher<SimpleRecord>, resolver: ConflictResolver): Map<string, Client> {
+  const duplicates = new Map<number, string[]>();
+  matcher.reviews.forEach(({ identity, candidate, score }) => {
+    duplicates.set(identity.id, [...(duplicates.get(identity.id) ?? []), `${clientEmailOf(candidate)} (${score.toFixed(2)})`]);
+    duplicates.set(candidate.id, [...(duplicates.get(candidate.id) ?? []), `${clientEmailOf(identity)} (${score.toFixed(2)})`]);
+  });
+  return new Map(
+    matcher.all().map(identity => {
+      const { values, conflicts } = resolver.resolve(clientEmailOf(identity));
+      return [
+        clientEmailOf(identity),
+        {
+          values: {
+            primary_name: (values["primary_name"] as string) ?? null,
+            primary_phone: (values["primary_phone"] as string) ?? null,
+            address: (values["address"] as string) ?? null,
+            primary_email: clientEmailOf(identity),
+            possible_duplicates: duplicates.get(identity.id)?.join(", ") ?? null,
+          },
+          conflicts,
+        },
+      ];
+    }),
+  );
+}
+
+/**
+ * Returns the conflicts stored in a client record's metadata
+ *
+ * @param client - The client record
+ */
+function conflictsOf(client: RecordWithMeta): FieldConflict[] {
+  return (client.metadata as { conflicts?: FieldConflict[] })?.conflicts ?? [];
+}
+
+/**
+ * Describes the clients whose projects disagree, one line per conflicting field,
+ * naming the project rows holding each value
+ *
+ * @param clients - The extracted clients keyed by email
+ * @param policy - The policy used to pick the kept value
+ */
+function describeConflicts(clients: Map<string, Client>, policy: ConflictPolicy): string[] {
+  const conflicted = Array.from(clients).filter(([, client]) => client.conflicts.length > 0);
+  if (conflicted.length === 0) {
+    return [];
+  }
+  const lines = conflicted.slice(0, MAX_REPORTED_CONFLICTS).flatMap(([email, client]) =>
+    client.conflicts.map(({ field, chosen, values }) => {
+      const rows = values.map(({ value, recordIds }) => `"${value}" (rows ${recordIds.join(", ")})`);
+      return `${email} • ${field}: kept "${chosen}" from ${rows.join(" vs ")}`;
+    }),
+  );
+  const more = conflicted.length > MAX_REPORTED_CONFLICTS ? [`…and ${conflicted.length - MAX_REPORTED_CONFLICTS} more clients`] : [];
+  return [`${conflicted.length} clients have projects that disagree (policy: ${policy}):`, ...lines, ...more];
+}
+
+/**
+ * Checks whether any of the client fields differ from an existing client record
+ *
+ * @param existing - The client record currently in the clients sheet
+ * @param client - The freshly extracted client
+ */
+function hasChanges(existing: RecordWithMeta, client: Client): boolean {
+  return (
+    CLIENT_FIELDS.some(key => (existing[key] ?? null) !== (client.values[key] ?? null)) ||
+    JSON.stringify(conflictsOf(existing)) !== JSON.stringify(client.conflicts)
+  );
+}
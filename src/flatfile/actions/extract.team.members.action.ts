@@ -0,0 +1,186 @@
+import { jobHandler } from "@flatfile/plugin-job-handler";
+import api, { Flatfile } from "@flatfile/api";
+import { getWorkbook } from "../../../support/utils/get.workbook";
+import { ProgressTracker } from "../../../support/utils/progress.tracker";
+import { formatRecord, formatUpdate, SimpleRecord } from "../../../support/utils/records";
+import { Similarity } from "../../../support/utils/common/matching";
+import { PeopleDirectory, Person, RosterEntry } from "../../../support/utils/common/people";
+
+/**
+ * Action declaration for the team member extraction process.
+ * This defines a foreground action that will be available in the UI
+ * to trigger the extraction of the people mentioned on the projects sheet.
+ */
+export const extractTeamMembersDeclaration: Flatfile.Action = {
+  "label": "Extract Team Members",
+  "mode": "foreground",
+  "description": "Traverse the projects sheet and extract the sales reps, project managers, closers and owners",
+  "operation": "extract-team-members"
+};
+
+/**
+ * Project fields naming a person, with the field holding their email when there is one
+ */
+const PEOPLE_FIELDS: Array<{ name: string; email?: string; role: string }> = [
+  { name: "sales_closer_name", email: "sales_closer_email", role: "Sales Closer" },
+  { name: "project_manager_name", email: "project_manager_email", role: "Project Manager" },
+  { name: "sales_rep", role: "Sales Rep" },
+  { name: "project_manager", role: "Project Manager" },
+  { name: "owner", role: "Owner" },
+];
+
+/**
+ * Team member fields compared to decide whether an existing team member changed
+ */
+const TEAM_MEMBER_FIELDS = ["name", "email", "aliases", "roles", "project_count", "coperniq_user_id", "issues"];
+
+/**
+ * Handler for the extract team members action.
+ * This job collects the people named on the projects into the Team Members sheet, one per email,
+ * attaching people mentioned by name only to the person using that name or mapped to the same user by the Roster sheet.
+ * Names and emails that are inconsistent across projects are listed in `issues`.
+ * The Coperniq user of each person is then stored in the `metadata.people` of their projects, by field key.
+ * Projects are read page by page so memory stays flat on large workbooks.
+ */
+export const extractTeamMembersHandler = jobHandler(`*:${extractTeamMembersDeclaration.operation}`, async (event) => {
+  const { jobId, workbookId, sheetId } = event.context;
+
+  await api.jobs.ack(jobId, {
+    info: "Starting job to extract team members",
+    progress: 5,
+  });
+  const progress = new ProgressTracker(jobId)
+    .add("Loading projects", "l")
+    .add("Upserting team members", "s")
+    .add("Linking projects", "l");
+
+  // Find the projects and team members sheets, and the roster when the workbook has one
+  const knownWorkbook = await getWorkbook(workbookId);
+  const projectsSheet = knownWorkbook.sheetById(sheetId);
+  const teamMembersSheet = knownWorkbook.sheet("team-members");
+  const roster: RosterEntry[] = knownWorkbook.hasSheet("roster")
+    ? (await knownWorkbook.sheet("roster").getAllRecords().all()).map(entry => ({
+        name: entry["name"] as string,
+        userId: entry["coperniq_user_id"] as string,
+      }))
+    : [];
+  const { total } = await projectsSheet.counts();
+
+  // Collect every person mentioned on every project, page by page
+  const directory = new PeopleDirectory(roster);
+  await projectsSheet
+    .getAllRecords()
+    .track(progress, "Loading projects", total)
+    .each((projects) => {
+      projects.forEach(project =>
+        PEOPLE_FIELDS.forEach(({ name, email, role }) =>
+          directory.add({ name: project[name] as string, email: email && (project[email] as string), role, recordId: project.id as string }),
+        ),
+      );
+    });
+  const people = directory.people();
+
+  // Compare against the existing team members so that only changed team members are touched
+  await progress.report("Upserting team members", 10);
+  const members = new Map(people.map(person => [person.key, toTeamMember(person)]));
+  const existingMembers = await teamMembersSheet.getAllRecords().all();
+  const existing = new Map(existingMembers.map(member => [teamMemberKey(member), member]));
+  const inserts = Array.from(members).filter(([key]) => !existing.has(key)).map(([, member]) => member);
+  const updates = Array.from(members)
+    .filter(([key, member]) => existing.has(key) && hasChanges(existing.get(key), member))
+    .map(([key, member]) => ({ ...member, id: existing.get(key).id }));
+  const removals = existingMembers.filter(member => !members.has(teamMemberKey(member))).map(member => member.id as string);
+
+  if (updates.length > 0) {
+    await api.records.update(teamMembersSheet.id, updates.map(formatUpdate));
+  }
+  if (inserts.length > 0) {
+    await api.records.insert(teamMembersSheet.id, inserts.map(formatRecord));
+  }
+  if (removals.length > 0) {
+    await api.records.delete(teamMembersSheet.id, { ids: removals });
+  }
+  await progress.complete("Upserting team members");
+
+  // Store the Coperniq users of every project page by page, skipping projects whose users didn't change
+  const find = PeopleDirectory.lookup(people);
+  let linked = 0;
+  await projectsSheet
+    .getAllRecords()
+    .track(progress, "Linking projects", total)
+    .each(async (projects) => {
+      const links = projects
+        .map(project => ({ project, people: usersOf(project, find) }))
+        .filter(({ project, people }) => JSON.stringify(project.metadata?.people ?? {}) !== JSON.stringify(people))
+        .map(({ project, people }) => ({ id: project.id as string, values: {}, metadata: { ...project.metadata, people } }));
+      if (links.length > 0) {
+        await api.records.update(projectsSheet.id, links);
+        linked += links.length;
+      }
+    });
+
+  // Mark the job as complete, pointing at the team members that need a human to check them
+  const withIssues = people.filter(person => person.issues.length > 0).length;
+  const withoutUser = people.filter(person => !person.userId).length;
+  const summary = `${inserts.length} created, ${updates.length} updated, ${removals.length} removed, ${linked} projects linked`;
+  await api.jobs.complete(jobId, {
+    info: `Completed job to extract team members: ${summary}`,
+    outcome: {
+      heading: "Team members extracted",
+      message: [
+        summary,
+        ...(withIssues > 0 ? [`${withIssues} team members have inconsistent names or emails, see the Issues column.`] : []),
+        ...(withoutUser > 0 ? [`${withoutUser} team members have no Coperniq user, add them to the Roster sheet.`] : []),
+      ].join("\n"),
+    },
+  });
+});
+
+/**
+ * Builds the team member record of a person
+ *
+ * @param person - The resolved person
+ */
+function toTeamMember(person: Person): SimpleRecord {
+  return {
+    name: person.name,
+    email: person.email,
+    aliases: person.aliases,
+    roles: person.roles,
+    project_count: person.recordIds.length,
+    coperniq_user_id: person.userId,
+    issues: person.issues.join("\n") || null,
+  };
+}
+
+/**
+ * Returns the key a team member is upserted by: the email, or the normalized name for people without one
+ *
+ * @param member - The team member record
+ */
+function teamMemberKey(member: SimpleRecord): string {
+  return Similarity.normalizeEmail(member["email"]) || `name:${Similarity.normalizeName(member["name"])}`;
+}
+
+/**
+ * Returns the Coperniq user of every person field of a project, by field key
+ *
+ * @param project - The project record
+ * @param find - The lookup of the extracted people
+ */
+function usersOf(project: SimpleRecord, find: ReturnType<typeof PeopleDirectory.lookup>): Record<string, string> {
+  return Object.fromEntries(
+    PEOPLE_FIELDS.map(({ name, email }) => [name, find({ name: project[name] as string, email: email && (project[email] as string) })?.userId])
+      .filter(([, userId]) => userId),
+  );
+}
+
+/**
+ * Checks whether any of the team member fields differ from an existing team member record
+ *
+ * @param existing - The team member record currently in the team members sheet
+ * @param member - The freshly extracted team member
+ */
+function hasChanges(existing: SimpleRecord, member: SimpleRecord): boolean {
+  return TEAM_MEMBER_FIELDS.some(key => JSON.stringify(existing[key] ?? null) !== JSON.stringify(member[key] ?? null));
+}
@@ -0,0 +1,66 @@
+import { jobHandler } from "@flatfile/plugin-job-handler";
+import api, { Flatfile } from "@flatfile/api";
+import { getWorkbook } from "../../../support/utils/get.workbook";
+import { ProgressTracker } from "../../../support/utils/progress.tracker";
+import { formatUpdate } from "../../../support/utils/records";
+import { StageInference } from "../../../support/utils/common/stages";
+
+/**
+ * Action declaration for filling empty stages from the milestone dates of each project.
+ */
+export const inferStagesDeclaration: Flatfile.Action = {
+  "label": "Fill Empty Stages",
+  "mode": "foreground",
+  "description": "Set the stage of projects without one to the stage reached according to their milestone dates",
+  "operation": "infer-stages"
+};
+
+/**
+ * Handler for the fill empty stages action.
+ * Infers the stage of every project without a `stage` from its milestone dates, using the stages declared
+ * in the projects sheet `metadata.stages`. Projects that already have a stage are left untouched,
+ * contradicting stages are reported by the projects hook instead.
+ */
+export const inferStagesHandler = jobHandler(`*:${inferStagesDeclaration.operation}`, async (event) => {
+  const { jobId, workbookId, sheetId } = event.context;
+
+  // Acknowledge the job
+  await api.jobs.ack(jobId, {
+    info: "Starting job to fill empty stages",
+    progress: 5,
+  });
+  const progress = new ProgressTracker(jobId).add("Filling stages", "l");
+
+  const knownWorkbook = await getWorkbook(workbookId);
+  const projectsSheet = knownWorkbook.sheetById(sheetId);
+  const { total } = await projectsSheet.counts();
+  const inference = new StageInference(projectsSheet.config.metadata?.stages ?? []);
+
+  // Set the inferred stage of every project without one, page by page
+  const filled = new Map<string, number>();
+  await projectsSheet
+    .getAllRecords()
+    .track(progress, "Filling stages", total)
+    .each(async (projects) => {
+      const updates = projects
+        .filter(project => !project["stage"])
+        .map(project => ({ id: project.id, stage: inference.infer((field) => project[field]).stage }));
+      if (updates.length > 0) {
+        await api.records.update(sheetId, updates.map(formatUpdate));
+        updates.forEach(({ stage }) => filled.set(stage, (filled.get(stage) ?? 0) + 1));
+      }
+    });
+
+  // Mark the job as complete, counting the projects filled per stage
+  const count = Array.from(filled.values()).reduce((sum, n) => sum + n, 0);
+  await api.jobs.complete(jobId, {
+    info: `Completed job to fill empty stages: ${count} projects`,
+    outcome: {
+      heading: "Stages filled",
+      message: [
+        `${count} projects had no stage and were set from their milestone dates.`,
+        ...Array.from(filled).map(([stage, n]) => `${stage}: ${n}`),
+      ].join("\n"),
+    },
+  });
+});
@@ -0,0 +1,156 @@
+import api, { Flatfile } from "@flatfile/api";
+import { jobHandler } from "@flatfile/plugin-job-handler";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { getWorkbook } from "../../../support/utils/get.workbook";
+import { ProgressTracker } from "../../../support/utils/progress.tracker";
+import { toSimpleRecord } from "../../../support/utils/records";
+import { SubmissionLedger } from "../submission/submission.ledger";
+import { getSubmissionTargets } from "../submission/submission.targets";
+
+export const previewSubmissionDeclaration: Flatfile.Action = {
+  "label": "Preview Submission",
+  "mode": "foreground",
+  "description": "Download the payloads Submit would send, without sending them",
+  "operation": "preview-submission",
+  "inputForm": {
+    "type": "simple",
+    "fields": [
+      {
+        "key": "format",
+        "label": "File format",
+        "type": "enum",
+        "defaultValue": "jsonl",
+        "config": {
+          "options": [
+            { "value": "jsonl", "label": "JSON Lines, one project per line" },
+            { "value": "json", "label": "JSON array" }
+          ]
+        },
+        "constraints": [{ "type": "required" }]
+      }
+    ]
+  }
+}
+
+/**
+ * Handler for the preview submission action.
+ * Loads and maps the projects exactly as Submit does, valid projects only and skipping projects already accepted,
+ * but writes the payloads of every submission target to a file attached to the space instead of delivering them.
+ * The payloads are appended to a temporary file page by page so memory stays flat on large workbooks.
+ * Sensitive values stay masked in the preview, they are only decrypted by the Submit action.
+ */
+export const previewSubmissionHandler = jobHandler(`*:${previewSubmissionDeclaration.operation}`, async (event) => {
+  const { jobId, workbookId, spaceId, environmentId } = event.context;
+
+  // Acknowledge the job
+  await api.jobs.ack(jobId, {
+    info: "Job started",
+    progress: 5,
+  });
+
+  const { data: job } = await api.jobs.get(jobId);
+  const format: "json" | "jsonl" = job.input?.format ?? "jsonl";
+
+  const knownWorkbook = await getWorkbook(workbookId);
+  const projectsKnownSheet = knownWorkbook.sheet("projects");
+  const targets = await getSubmissionTargets(spaceId, projectsKnownSheet.fields, { signed: false });
+  const ledger = await SubmissionLedger.load(knownWorkbook.sheet("submissions"));
+  const { valid, error } = await projectsKnownSheet.counts();
+  const progress = new ProgressTracker(jobId).add("Mapping projects", "l");
+
+  // Map each valid project with the mapper of every target and append the payload to the preview file of the target,
+  // counting projects per status and workflow
+  const previews = targets.map(target => ({
+    target,
+    file: path.join(os.tmpdir(), `submission-preview-${target.name}-${workbookId}-${Date.now()}.${format}`),
+    count: 0,
+    skipped: 0,
+  }));
+  const statuses = new Map<string, number>();
+  const workflows = new Map<string, number>();
+  previews.forEach(preview => fs.writeFileSync(preview.file, format === "json" ? "[" : ""));
+  try {
+    await projectsKnownSheet
+      .getAllRawRecords({ filter: "valid" })
+      .track(progress, "Mapping projects", valid)
+      .each((projects) => {
+        const records = projects.map(toSimpleRecord);
+        records.forEach(project => {
+          increment(statuses, project["status"]);
+          increment(workflows, project["workflow"]);
+        });
+        previews.forEach(preview => {
+          const lines: string[] = [];
+          records.forEach(project => {
+            if (ledger.isAccepted(preview.target.name, SubmissionLedger.hashRecord(preview.target.mapper, project))) {
+              preview.skipped++;
+              return;
+            }
+            const payload = preview.target.mapper.map(project);
+            lines.push((format === "json" && preview.count > 0 ? "," : "") + JSON.stringify(payload));
+            preview.count++;
+          });
+          if (lines.length > 0) {
+            fs.appendFileSync(preview.file, lines.join("\n") + "\n");
+          }
+        });
+      });
+    if (format === "json") {
+      previews.forEach(preview => fs.appendFileSync(preview.file, "]\n"));
+    }
+
+    // Attach the previews to the space and summarize them
+    const files = [];
+    for (const preview of previews) {
+      const upload = await api.files.upload(fs.createReadStream(preview.file), { spaceId, environmentId, mode: "export" });
+      files.push({ fileId: upload.data.id, label: `Submission preview (${preview.target.name})` });
+    }
+    await api.jobs.complete(jobId, {
+      outcome: {
+        heading: "Submission preview",
+        message: [
+          ...previews.map(({ target, count, skipped }) =>
+            `${target.name}: ${count} projects would be submitted` +
+            (skipped > 0 ? `, ${skipped} skipped as they were already accepted unchanged.` : "."),
+          ),
+          ...(error > 0 ? [`${error} projects with errors would not be submitted.`] : []),
+          "Valid projects by status:",
+          ...describeCounts(statuses),
+          "Valid projects by workflow:",
+          ...describeCounts(workflows),
+        ].join("\n"),
+        next: {
+          type: "files",
+          label: "Download preview",
+          files,
+        },
+      },
+    });
+  } finally {
+    previews.forEach(preview => fs.rmSync(preview.file, { force: true }));
+  }
+});
+
+/**
+ * Counts one more project for a value, empty values are counted as "(none)"
+ *
+ * @param counts - The counts per value
+ * @param value - The project value
+ */
+function increment(counts: Map<string, number>, value: unknown) {
+  const key = value === undefined || value === null || value === "" ? "(none)" : String(value);
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+/**
+ * Describes the counts per value, most frequent first
+ *
+ * @param counts - The counts per value
+ */
+function describeCounts(counts: Map<string, number>): string[] {
+  return Array.from(counts)
+    .sort(([, a], [, b]) => b - a)
+    .map(([value, count]) => `  ${value}: ${count}`);
+}
@@ -1,72 +1,295 @@
 import api, { Flatfile } from "@flatfile/api";
 import { jobHandler } from "@flatfile/plugin-job-handler";
 import { getWorkbook } from "../../../support/utils/get.workbook";
+import { ProgressTracker } from "../../../support/utils/progress.tracker";
+import { WebhookRequest } from "../../../support/utils/requests/webhook.request";
+import { RequestError, RetryError } from "../../../support/utils/requests/request.errors";
+import { SensitiveCipher, SensitiveKeyError } from "../../../support/utils/common/sensitive";
+import { toSimpleRecord } from "../../../support/utils/records";
+import { PayloadBatch, PayloadBatcher } from "../submission/payload.batcher";
+import { DecryptionAudit } from "../submission/decryption.audit";
+import { clearRejections, exportRejectedRows, RejectedRows } from "../submission/rejected.rows";
+import { SubmissionLedger } from "../submission/submission.ledger";
+import { getSubmissionTargets, SubmissionTarget } from "../submission/submission.targets";
 
 export const submitActionDeclaration: Flatfile.Action = {
   "label": "Submit",
   "mode": "foreground",
   "description": "Submit the data",
   "operation": "submitfg",
-  "primary": true
+  "primary": true,
+  "inputForm": {
+    "type": "simple",
+    "fields": [
+      {
+        "key": "mode",
+        "label": "Submission mode",
+        "description": "Submit only the projects without errors, or block the submission while any project has errors",
+        "type": "enum",
+        "defaultValue": "valid",
+        "config": {
+          "options": [
+            { "value": "valid", "label": "Valid projects only" },
+            { "value": "strict", "label": "Strict" }
+          ]
+        },
+        "constraints": [{ "type": "required" }]
+      }
+    ]
+  }
 }
 
+/**
+ * Upper bounds of a single webhook request
+ */
+const MAX_BATCH_BYTES = 1_000_000;
+const MAX_BATCH_RECORDS = 500;
 
-export const submitActionHandler = jobHandler(`*:${submitActionDeclaration.operation}`, async (event, tick) => {
-  const { payload } = event;
-  const { jobId, workbookId } = event.context;
+/**
+ * The payload of a project for a target, with the hash the ledger knows it by
+ */
+interface ProjectPayload {
+  payload: Record<string, unknown>;
+  hash: string;
+}
 
-  const webhookReceiverRaw = process.env.WEBHOOK_SITE_URL;
+/**
+ * Result of delivering one batch
+ */
+interface BatchResult {
+  target: string;
+  number: number;
+  records: number;
+  success: boolean;
+  error?: string;
+}
 
-  if (!webhookReceiverRaw) {
-    throw new Error("WEBHOOK_SITE_URL is not set in the environment");
-  }
+export const submitActionHandler = jobHandler(`*:${submitActionDeclaration.operation}`, async (event) => {
+  const { jobId, workbookId, spaceId, environmentId } = event.context;
+
+  const knownWorkbook = await getWorkbook(workbookId);
+  const projectsKnownSheet = knownWorkbook.sheet("projects");
+
+  // Resolve the targets of the space before starting, a space without a target can't be submitted.
+  // Sensitive values are only decrypted when each decryption can be recorded
+  const audit = knownWorkbook.hasSheet("decryptions") ? new DecryptionAudit(knownWorkbook.sheet("decryptions"), jobId) : undefined;
+  const targets = await getSubmissionTargets(spaceId, projectsKnownSheet.fields, { audit });
 
-  const webhookReceiver = webhookReceiverRaw.trim();
-  
   // Acknowledge the job
-  try {
-    await api.jobs.ack(jobId, {
-      info: "Job started",
-      progress: 25,
-    });
+  await api.jobs.ack(jobId, {
+    info: "Job started",
+    progress: 5,
+  });
 
-    tick(50, "Loading data from workbook");
+  const { data: job } = await api.jobs.get(jobId);
+  const mode = job.input?.mode ?? "valid";
 
-    const knownWorkbook = await getWorkbook(workbookId);
-    const projectsKnownSheet = knownWorkbook.sheet("projects");
-    const projects = await projectsKnownSheet.getAllRecords().all();
+  const ledger = await SubmissionLedger.load(knownWorkbook.sheet("submissions"));
+  const { valid } = await projectsKnownSheet.counts();
+  const progress = new ProgressTracker(jobId).add("Exporting rejected projects", "s").add("Submitting projects", "l");
+
+  // Tag the projects with errors and export them, blocking the whole submission in strict mode
+  const rejected = await exportRejectedRows(projectsKnownSheet, { spaceId, environmentId });
+  await progress.complete("Exporting rejected projects");
+  if (mode === "strict" && rejected.count > 0) {
+    await api.jobs.fail(jobId, {
+      outcome: {
+        heading: "Submission blocked",
+        message: `${rejected.count} projects have errors. Fix them or submit valid projects only.`,
+        ...downloadRejected(rejected),
+      },
+    });
+    return;
+  }
 
-    tick(75, "Submitting data to webhook.site");
-    // Send the data to our webhook.site URL
-    const response = await fetch(webhookReceiver, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
+  // Sensitive values are never sent masked: without a Decryptions sheet to record their decryption they can't be sent at all.
+  // Check the key of the sensitive values before anything is delivered, rather than failing midway
+  const sensitiveProject = await projectsKnownSheet
+    .getAllRawRecords({ filter: "valid" })
+    .find(record => Object.keys(record.metadata?.sensitive ?? {}).length > 0);
+  if (sensitiveProject && !audit) {
+    await api.jobs.fail(jobId, {
+      outcome: {
+        heading: "Submission blocked",
+        message: "Projects have sensitive values, but the workbook has no Decryptions sheet to record their decryption. Nothing was submitted.",
+        ...downloadRejected(rejected),
+      },
+    });
+    return;
+  }
+  const keyError = sensitiveProject && checkSensitiveKey(sensitiveProject);
+  if (keyError) {
+    await api.jobs.fail(jobId, {
+      outcome: {
+        heading: "Submission blocked",
+        message: `Sensitive values can't be decrypted: ${keyError}. Nothing was submitted.`,
+        ...downloadRejected(rejected),
       },
-      body: JSON.stringify({
-        ...payload,
-        method: "fetch",
-        projects,
-      }),
     });
+    return;
+  }
 
-    if (response.status !== 200) {
-      console.error("ERROR", response);
-      throw new Error("Failed to submit data to webhook.site");
+  // Map each valid project with the mapper of every target and send the payloads in size-bounded batches
+  // as pages load, skipping projects whose payload was already accepted by the target.
+  // Payloads are hashed with their sensitive values sealed, so skipped projects are never decrypted
+  const deliveries = targets.map(target => ({
+    target,
+    batcher: new PayloadBatcher<ProjectPayload>({ maxBytes: MAX_BATCH_BYTES, maxRecords: MAX_BATCH_RECORDS }),
+    skipped: 0,
+  }));
+  const results: BatchResult[] = [];
+  const send = async (target: SubmissionTarget, batch?: PayloadBatch<ProjectPayload>) => {
+    if (batch) {
+      results.push(await deliverBatch(target, { jobId, workbookId }, batch, ledger));
     }
+  };
+  await projectsKnownSheet
+    .getAllRawRecords({ filter: "valid" })
+    .track(progress, "Submitting projects", valid)
+    .each(async (projects) => {
+      await clearRejections(projectsKnownSheet, projects);
+      for (const project of projects.map(toSimpleRecord)) {
+        for (const delivery of deliveries) {
+          const hash = SubmissionLedger.hashRecord(delivery.target.mapper, project);
+          if (ledger.isAccepted(delivery.target.name, hash)) {
+            delivery.skipped++;
+            continue;
+          }
+          await send(delivery.target, delivery.batcher.add({ payload: delivery.target.mapper.map(project), hash }));
+        }
+      }
+      await audit?.flush();
+    });
+  for (const delivery of deliveries) {
+    await send(delivery.target, delivery.batcher.flush());
+  }
+  await audit?.flush();
 
-    tick(99, "Data submitted to webhook.site");
+  // Report every batch of every target and the rejected projects, failing the job when any batch was rejected
+  const failed = results.filter(result => !result.success);
+  const outcome: Flatfile.JobOutcome = {
+    heading: failed.length ? "Submitted with errors" : "Submitted",
+    message: [
+      `${results.length - failed.length} of ${results.length} batches were delivered to ${targets.map(target => target.name).join(", ")}.`,
+      ...results.map(describeBatch),
+      ...deliveries
+        .filter(delivery => delivery.skipped > 0)
+        .map(({ target, skipped }) => `${target.name}: ${skipped} projects were skipped, they were already accepted unchanged.`),
+      ...(audit?.count ? [`${audit.count} sensitive values were decrypted for delivery, see the Decryptions sheet.`] : []),
+      ...(rejected.count > 0 ? [`${rejected.count} projects with errors were not submitted.`] : []),
+    ].join("\n"),
+    ...downloadRejected(rejected),
+  };
+  if (failed.length) {
+    await api.jobs.fail(jobId, { outcome });
+  } else {
+    await api.jobs.complete(jobId, { outcome });
+  }
+});
 
-    // Otherwise, complete the job
-    await api.jobs.complete(jobId, {
-      outcome: {
-        message: `Data was successfully submitted to Webhook.site. Go check it out at ${webhookReceiver}.`,
-      },
+/**
+ * Posts one signed batch of project payloads to a submission target and records the delivery in the ledger.
+ * The idempotency key is derived from the workbook, the batch number and the sealed hashes of the batch's projects,
+ * so a re-delivered batch can be ignored while a re-submission with other projects in the same batch number is not.
+ * Any 2xx is a success and recoverable errors are retried with back-off.
+ *
+ * @param target - The submission target, with the secret shared with it to sign the payload
+ * @param context - The job and workbook being submitted
+ * @param batch - The batch to deliver
+ * @param ledger - The ledger the delivery is recorded in
+ * @returns the result of the delivery, failures are reported rather than thrown
+ */
+async function deliverBatch(
+  target: SubmissionTarget,
+  context: { jobId: string; workbookId: string },
+  batch: PayloadBatch<ProjectPayload>,
+  ledger: SubmissionLedger,
+): Promise<BatchResult> {
+  const result = { target: target.name, number: batch.number, records: batch.payloads.length };
+  const payload = { workbookId: context.workbookId, batch: batch.number, projects: batch.payloads.map(project => project.payload) };
+  // The batch is identified by the sealed hashes of its projects, the readable ledger never holds a hash of decrypted values
+  const batchHash = SubmissionLedger.hash(batch.payloads.map(project => project.hash));
+  const request = new WebhookRequest(target.url, payload, {
+    secret: target.secret,
+    headers: target.headers,
+    idempotencyKey: `${context.workbookId}-${batch.number}-${batchHash.substring(0, 16)}`,
+  });
+  const attempt = {
+    jobId: context.jobId,
+    target: target.name,
+    batchNumber: batch.number,
+    payloadHash: batchHash,
+    recordHashes: batch.payloads.map(project => project.hash),
+  };
+  const startedAt = Date.now();
+  try {
+    const response = await request;
+    await ledger.record({
+      ...attempt,
+      status: response.status,
+      response: response.body,
+      attempts: request.attemptCount,
+      durationMs: Date.now() - startedAt,
     });
+    return { ...result, success: true };
   } catch (error) {
-    throw error;
+    const failure = error instanceof RetryError ? error.original : error;
+    const status = failure instanceof RequestError ? failure.res?.status : undefined;
+    await ledger.record({
+      ...attempt,
+      status,
+      response: failure instanceof RequestError ? failure.raw : String(error),
+      attempts: request.attemptCount,
+      durationMs: Date.now() - startedAt,
+    });
+    // Only the message is reported, the error holds the request whose payload may carry decrypted sensitive values
+    return { ...result, success: false, error: status ? `HTTP ${status}` : String(failure?.message ?? error) };
   }
+}
 
+/**
+ * Checks the configured key against a sealed value of a project
+ *
+ * @param project - A valid project with sealed values in its `metadata.sensitive`
+ * @returns why the sensitive values can't be decrypted, nothing when they can
+ */
+function checkSensitiveKey(project: Flatfile.Record_): string | undefined {
+  try {
+    const [sealed] = Object.values<string>(project.metadata.sensitive);
+    SensitiveCipher.fromEnv().check(sealed);
+  } catch (error) {
+    if (error instanceof SensitiveKeyError) {
+      return error.message;
+    }
+    throw error;
+  }
+  return undefined;
+}
 
+/**
+ * Describes the result of a batch in the job outcome
+ *
+ * @param result - The batch result
+ */
+function describeBatch(result: BatchResult): string {
+  const status = result.success ? "delivered" : `failed (${result.error})`;
+  return `${result.target} batch ${result.number}: ${result.records} projects ${status}`;
+}
 
-});
+/**
+ * Links the rejected rows export from the job outcome
+ *
+ * @param rejected - The exported rejected rows
+ */
+function downloadRejected(rejected: RejectedRows): Pick<Flatfile.JobOutcome, "next"> {
+  if (!rejected.fileId) {
+    return {};
+  }
+  return {
+    next: {
+      type: "files",
+      label: "Download rejected projects",
+      files: [{ fileId: rejected.fileId, label: "Rejected projects" }],
+    },
+  };
+}
@@ -1,11 +1,26 @@
 import { Flatfile } from "@flatfile/api";
 import { ValidationType, StringValidationType } from "../../../../support/utils/common/validation";
+import { ConflictPolicy } from "../../../../support/utils/common/matching";
 
 export const clientsSheet: Flatfile.SheetConfig = {
   name: "Clients",
   slug: "clients",
   readonly: true,
   allowAdditionalFields: false,
+  metadata: {
+    // Extract Clients merges projects scoring at or above mergeThreshold into one client
+    // and flags pairs scoring at or above reviewThreshold as possible duplicates
+    matching: {
+      mergeThreshold: 0.85,
+      reviewThreshold: 0.65,
+    },
+    // When the projects of one client disagree on a name, phone or address, keep the
+    // most frequent value, the value of the most recently created project, or the first seen
+    conflictPolicy: ConflictPolicy.FIRST_SEEN,
+    // Also match projects on their other emails, phones and names, so a project listing
+    // another client's email among its secondary contacts belongs to that client
+    secondaryContacts: true,
+  },
   fields: [
     {
       key: "primary_name",
@@ -46,6 +61,41 @@ export const clientsSheet: Flatfile.SheetConfig = {
       type: "string",
       label: "Address",
       constraints: [{ type: "required" }]
+    },
+    {
+      key: "address_street",
+      type: "string",
+      label: "Street",
+      description: "Split from Address, with the apartment or suite",
+      readonly: true
+    },
+    {
+      key: "address_city",
+      type: "string",
+      label: "City",
+      description: "Split from Address",
+      readonly: true
+    },
+    {
+      key: "address_state",
+      type: "string",
+      label: "State",
+      description: "Split from Address, two-letter abbreviation",
+      readonly: true
+    },
+    {
+      key: "address_zip",
+      type: "string",
+      label: "ZIP",
+      description: "Split from Address, 5 digits or ZIP+4",
+      readonly: true
+    },
+    {
+      key: "possible_duplicates",
+      type: "string",
+      label: "Possible Duplicates",
+      description: "Clients that closely match this one and need a human to confirm",
+      readonly: true
     }
   ]
 };
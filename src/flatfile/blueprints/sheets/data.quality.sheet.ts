@@ -0,0 +1,79 @@
+import { Flatfile } from "@flatfile/api";
+
+/**
+ * How migration-ready the projects are: one row per field, per field group and overall.
+ * Rows are replaced every time the Check Data Quality action runs.
+ */
+export const dataQualitySheet: Flatfile.SheetConfig = {
+  name: "Data Quality",
+  slug: "data-quality",
+  readonly: true,
+  allowAdditionalFields: false,
+  fields: [
+    {
+      key: "scope",
+      type: "enum",
+      label: "Scope",
+      config: {
+        options: [
+          { value: "Overall", label: "Overall" },
+          { value: "Group", label: "Group" },
+          { value: "Field", label: "Field" },
+        ],
+      },
+      readonly: true
+    },
+    {
+      key: "group",
+      type: "string",
+      label: "Group",
+      readonly: true
+    },
+    {
+      key: "field",
+      type: "string",
+      label: "Field",
+      readonly: true
+    },
+    {
+      key: "fill_rate",
+      type: "number",
+      label: "Fill Rate (%)",
+      description: "Share of the projects with the field filled",
+      readonly: true
+    },
+    {
+      key: "error_rate",
+      type: "number",
+      label: "Error Rate (%)",
+      description: "Share of the projects with an error on the field",
+      readonly: true
+    },
+    {
+      key: "distinct_values",
+      type: "number",
+      label: "Distinct Values",
+      description: "Counted up to 10,000",
+      readonly: true
+    },
+    {
+      key: "completeness",
+      type: "number",
+      label: "Completeness (%)",
+      description: "Share of the cells of the group, or of every group, that are filled",
+      readonly: true
+    },
+    {
+      key: "projects",
+      type: "number",
+      label: "Projects",
+      readonly: true
+    },
+    {
+      key: "checked_at",
+      type: "date",
+      label: "Checked At",
+      readonly: true
+    }
+  ]
+};
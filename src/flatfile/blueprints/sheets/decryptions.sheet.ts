@@ -0,0 +1,45 @@
+import { Flatfile } from "@flatfile/api";
+
+/**
+ * Audit trail of the sensitive values decrypted by the Submit action, one row per value decrypted.
+ * Values are only ever decrypted to be delivered, the rows never hold the values themselves.
+ */
+export const decryptionsSheet: Flatfile.SheetConfig = {
+  name: "Decryptions",
+  slug: "decryptions",
+  readonly: true,
+  allowAdditionalFields: false,
+  fields: [
+    {
+      key: "decrypted_at",
+      type: "date",
+      label: "Decrypted At",
+      readonly: true
+    },
+    {
+      key: "job_id",
+      type: "string",
+      label: "Job",
+      readonly: true
+    },
+    {
+      key: "target",
+      type: "string",
+      label: "Target",
+      description: "Name of the submission target the value was decrypted for",
+      readonly: true
+    },
+    {
+      key: "record_id",
+      type: "string",
+      label: "Record",
+      readonly: true
+    },
+    {
+      key: "field",
+      type: "string",
+      label: "Field",
+      readonly: true
+    }
+  ]
+};
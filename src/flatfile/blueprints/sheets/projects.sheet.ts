@@ -1,6 +1,39 @@
 import { Flatfile } from "@flatfile/api";
-import { ValidationType, DateValidationType, StringValidationType, NumberValidationType } from "../../../../support/utils/common/validation";
+import { ValidationType, DateValidationType, StringValidationType, NumberValidationType, SequenceValidationType, SolarValidationType, RoofValidationType } from "../../../../support/utils/common/validation";
+import { StageDefinition } from "../../../../support/utils/common/stages";
 import { extractClientsDeclaration } from "../../actions/extract.clients.action";
+import { extractTeamMembersDeclaration } from "../../actions/extract.team.members.action";
+import { checkDataQualityDeclaration } from "../../actions/check.data.quality.action";
+import { inferStagesDeclaration } from "../../actions/infer.stages.action";
+
+/**
+ * Date fields of the solar lifecycle milestones, in the order they are reached
+ */
+export const MILESTONE_FIELDS = [
+  "contract_signed_date",
+  "site_survey_completed_date",
+  "engineering_completed_date",
+  "permit_applied_date",
+  "permit_received_date",
+  "installation_completed_date",
+  "inspection_passed_date",
+  "pto_applied_date",
+  "pto_received_date",
+];
+
+/**
+ * Stages of the solar lifecycle, in order, with the milestone dates that mean a project has reached them
+ */
+const PROJECT_STAGES: StageDefinition[] = [
+  { name: "Sale", aliases: ["Lead", "Sold", "Contract"] },
+  { name: "Site Survey", reachedBy: ["contract_signed_date"], aliases: ["Survey", "Site Visit"] },
+  { name: "Engineering", reachedBy: ["site_survey_completed_date"], aliases: ["Design", "Plan Set"] },
+  { name: "Permitting", reachedBy: ["engineering_completed_date", "permit_applied_date"], aliases: ["Permit", "Permits"] },
+  { name: "Install", reachedBy: ["permit_received_date"], aliases: ["Installation", "Install Scheduled"] },
+  { name: "Inspection", reachedBy: ["installation_completed_date"], aliases: ["Final Inspection"] },
+  { name: "PTO", reachedBy: ["inspection_passed_date", "pto_applied_date"], aliases: ["Permission to Operate", "Interconnection"] },
+  { name: "Complete", reachedBy: ["pto_received_date"], aliases: ["Completed", "PTO Received", "Operating"] },
+];
 
 export const projectsSheet: Flatfile.SheetConfig = {
   name: "Projects",
@@ -8,9 +41,112 @@ export const projectsSheet: Flatfile.SheetConfig = {
   readonly: false,
   allowAdditionalFields: true,
   actions: [
-    extractClientsDeclaration
+    extractClientsDeclaration,
+    extractTeamMembersDeclaration,
+    inferStagesDeclaration,
+    checkDataQualityDeclaration
+  ],
+  metadata: {
+    // The stage a project has reached is inferred from its milestone dates and checked against `stage`
+    stages: PROJECT_STAGES,
+    // Check Data Quality reports the completeness of these field groups, and scores each project on their fields
+    qualityGroups: ["Standard", "System Info", "Financial Info", "Stakeholder Info"],
+  },
+  constraints: [
+    // Milestones of the solar lifecycle must follow each other, and milestones can't be completed in the future
+    {
+      type: "external",
+      validator: "SequenceValidator",
+      fields: MILESTONE_FIELDS,
+      config: {
+        type: SequenceValidationType.IN_ORDER,
+        options: { addError: true }
+      }
+    },
+    {
+      type: "external",
+      validator: "SequenceValidator",
+      fields: MILESTONE_FIELDS,
+      config: {
+        type: SequenceValidationType.NOT_IN_FUTURE,
+        options: { addError: true }
+      }
+    },
+    // Financial consistency, each rule is reported on both of its fields
+    {
+      type: "external",
+      validator: "RatioValidator",
+      fields: ["net_contract_price", "gross_contract_price"],
+      config: {
+        bounds: { max: 1 },
+        options: { addError: true, reportOn: "both", errorMsg: "Net contract price can't exceed the gross contract price" }
+      }
+    },
+    {
+      type: "external",
+      validator: "RatioValidator",
+      fields: ["sales_commission", "net_contract_price"],
+      config: {
+        // Highest share of the net contract price paid as commission
+        bounds: { max: 0.25 },
+        options: { addError: true, reportOn: "both", label: "Sales commission share of the net contract price" }
+      }
+    },
+    {
+      type: "external",
+      validator: "RatioValidator",
+      fields: ["project_value", "gross_contract_price"],
+      config: {
+        // Project value is expected to match the gross contract price within 5%
+        bounds: { min: 0.95, max: 1.05 },
+        options: { addWarning: true, reportOn: "both", errorMsg: "Project value doesn't match the gross contract price ({ratio} times it)" }
+      }
+    },
+    {
+      type: "external",
+      validator: "RatioValidator",
+      fields: ["net_contract_price", "system_size_kw_dc"],
+      config: {
+        // Plausible price per watt in $/W, the DC size is in kW
+        bounds: { min: 1.5, max: 6, scale: 1000 },
+        options: { addWarning: true, reportOn: "both", label: "Price per watt ($/W)" }
+      }
+    },
+    // Solar system sizing sanity checks
+    {
+      type: "external",
+      validator: "SolarValidator",
+      fields: ["system_size_kw_dc", "system_size_kw_ac"],
+      config: {
+        type: SolarValidationType.DC_AC_RATIO,
+        band: { min: 1, max: 1.5 },
+        options: { addWarning: true }
+      }
+    },
+    {
+      type: "external",
+      validator: "SolarValidator",
+      fields: ["project_size", "system_size_kw_dc", "system_size_kw_ac"],
+      config: {
+        type: SolarValidationType.PROJECT_SIZE,
+        tolerance: 0.05,
+        options: { addWarning: true }
+      }
+    },
+    {
+      type: "external",
+      validator: "SolarValidator",
+      fields: ["battery_kwh", "trades"],
+      config: {
+        type: SolarValidationType.STORAGE,
+        storageTrade: "Storage",
+        options: { addWarning: true }
+      }
+    }
   ],
   fields: [
+    // Fields that only apply to some projects declare `metadata.requiredWhen` instead of a required constraint,
+    // e.g. the cancellation notes of canceled projects or the milestone dates of the stages a project that wasn't canceled is past
     // Standard Fields
     {
       key: "primary_title",
@@ -66,6 +202,51 @@ export const projectsSheet: Flatfile.SheetConfig = {
       constraints: [{ type: "required" }],
       metadata: { group: "Standard" }
     },
+    {
+      key: "address_street",
+      type: "string",
+      label: "Street",
+      description: "Split from Address, with the apartment or suite",
+      readonly: true,
+      metadata: { group: "Standard" }
+    },
+    {
+      key: "address_city",
+      type: "string",
+      label: "City",
+      description: "Split from Address",
+      readonly: true,
+      metadata: { group: "Standard" }
+    },
+    {
+      key: "address_state",
+      type: "string",
+      label: "State",
+      description: "Split from Address, two-letter abbreviation",
+      readonly: true,
+      metadata: { group: "Standard" }
+    },
+    {
+      key: "address_zip",
+      type: "string",
+      label: "ZIP",
+      description: "Split from Address, 5 digits or ZIP+4",
+      readonly: true,
+      metadata: { group: "Standard" }
+    },
+    {
+      key: "client",
+      type: "reference",
+      label: "Client",
+      description: "Linked by Extract Clients",
+      readonly: true,
+      config: {
+        ref: "clients",
+        key: "primary_email",
+        relationship: "has-one",
+      },
+      metadata: { group: "Standard" }
+    },
     {
       key: "workflow",
       type: "string",
@@ -78,7 +259,7 @@ export const projectsSheet: Flatfile.SheetConfig = {
       key: "stage",
       type: "string",
       label: "Stage",
-      description: "If Stages are different, provide a mapping",
+      description: "If Stages are different, map them in the Stage Mapping sheet",
       constraints: [{ type: "required" }],
       metadata: { group: "Standard" }
     },
@@ -86,7 +267,7 @@ export const projectsSheet: Flatfile.SheetConfig = {
       key: "project_size",
       type: "number",
       label: "Project Size (kW)",
-      description: "Should be in kW, clean without units",
+      description: "In kW, values with units like \"7200 W\" are converted",
       constraints: [
         { type: "required" },
         {
@@ -103,13 +284,13 @@ export const projectsSheet: Flatfile.SheetConfig = {
           }
         }
       ],
-      metadata: { group: "Standard" }
+      metadata: { group: "Standard", unit: "kW" }
     },
     {
       key: "project_value",
       type: "number",
       label: "Project Value ($)",
-      description: "Should be in $, clean without units",
+      description: "In $, values like \"$35,000\" or \"$35k\" are converted",
       constraints: [
         { type: "required" },
         {
@@ -126,7 +307,7 @@ export const projectsSheet: Flatfile.SheetConfig = {
           }
         }
       ],
-      metadata: { group: "Standard" }
+      metadata: { group: "Standard", unit: "USD" }
     },
     {
       key: "status",
@@ -141,7 +322,15 @@ export const projectsSheet: Flatfile.SheetConfig = {
           { value: "Completed", label: "Completed" },
         ],
       },
-      metadata: { group: "Standard" }
+      metadata: {
+        group: "Standard",
+        synonyms: {
+          "Active": ["in progress", "open", "ongoing"],
+          "On Hold": ["hold", "paused", "pending"],
+          "Canceled": ["cancelled", "cancel", "lost", "dead"],
+          "Completed": ["complete", "done", "closed", "finished"],
+        },
+      }
     },
     {
       key: "trades",
@@ -156,7 +345,14 @@ export const projectsSheet: Flatfile.SheetConfig = {
           { value: "...", label: "..." },
         ],
       },
-      metadata: { group: "Standard" }
+      metadata: {
+        group: "Standard",
+        synonyms: {
+          "Solar": ["pv", "solar pv", "photovoltaic", "panels"],
+          "Storage": ["battery", "batteries", "ess", "energy storage"],
+          "Electrical": ["electric", "mpu", "main panel upgrade", "panel upgrade"],
+        },
+      }
     },
     {
       key: "sales_rep",
@@ -186,7 +382,6 @@ export const projectsSheet: Flatfile.SheetConfig = {
       type: "number",
       label: "Battery (kWh)",
       constraints: [
-        { type: "required" },
         {
           type: "external", 
           validator: "NumberValidator",
@@ -201,7 +396,7 @@ export const projectsSheet: Flatfile.SheetConfig = {
           }
         }
       ],
-      metadata: { group: "System Info" }
+      metadata: { group: "System Info", unit: "kWh", requiredWhen: { field: "trades", in: ["Storage"] } }
     },
     {
       key: "legacy_stage",
@@ -229,7 +424,7 @@ export const projectsSheet: Flatfile.SheetConfig = {
           }
         }
       ],
-      metadata: { group: "System Info" }
+      metadata: { group: "System Info", unit: "kW" }
     },
     {
       key: "system_size_kw_ac",
@@ -250,7 +445,7 @@ export const projectsSheet: Flatfile.SheetConfig = {
           }
         }
       ],
-      metadata: { group: "System Info" }
+      metadata: { group: "System Info", unit: "kW" }
     },
 
     // Financial Info
@@ -259,7 +454,6 @@ export const projectsSheet: Flatfile.SheetConfig = {
       type: "date",
       label: "Contract Signed Date",
       constraints: [
-        { type: "required" },
         {
           type: "external",
           validator: "DateValidator",
@@ -275,7 +469,7 @@ export const projectsSheet: Flatfile.SheetConfig = {
           }
         }
       ],
-      metadata: { group: "Financial Info" }
+      metadata: { group: "Financial Info", requiredWhen: [{ field: "stage", atLeast: "Site Survey" }, { field: "status", notIn: ["Canceled"] }] }
     },
     {
       key: "ownership_type",
@@ -290,14 +484,21 @@ export const projectsSheet: Flatfile.SheetConfig = {
           { value: "PPA", label: "PPA" },
         ],
       },
-      metadata: { group: "Financial Info" }
+      metadata: {
+        group: "Financial Info",
+        synonyms: {
+          "Cash": ["paid in full", "self funded"],
+          "Loan": ["financed", "financing", "solar loan"],
+          "Lease": ["leased", "solar lease"],
+          "PPA": ["power purchase agreement"],
+        },
+      }
     },
     {
       key: "financing_provider",
       type: "string",
       label: "Financing Provider",
-      constraints: [{ type: "required" }],
-      metadata: { group: "Financial Info" }
+      metadata: { group: "Financial Info", requiredWhen: { field: "ownership_type", notIn: ["Cash"] } }
     },
     {
       key: "gross_contract_price",
@@ -319,7 +520,7 @@ export const projectsSheet: Flatfile.SheetConfig = {
           }
         }
       ],
-      metadata: { group: "Financial Info" }
+      metadata: { group: "Financial Info", unit: "USD" }
     },
     {
       key: "net_contract_price",
@@ -341,7 +542,7 @@ export const projectsSheet: Flatfile.SheetConfig = {
           }
         }
       ],
-      metadata: { group: "Financial Info" }
+      metadata: { group: "Financial Info", unit: "USD" }
     },
     {
       key: "sales_commission",
@@ -362,7 +563,7 @@ export const projectsSheet: Flatfile.SheetConfig = {
           }
         }
       ],
-      metadata: { group: "Financial Info" }
+      metadata: { group: "Financial Info", unit: "USD" }
     },
 
     // Stakeholder Info
@@ -370,22 +571,25 @@ export const projectsSheet: Flatfile.SheetConfig = {
       key: "utility_company",
       type: "string",
       label: "Utility Company",
+      description: "Matched to the utilities serving the state of the address",
       constraints: [{ type: "required" }],
-      metadata: { group: "Stakeholder Info" }
+      metadata: { group: "Stakeholder Info", reference: "utilities" }
     },
     {
       key: "ahj",
       type: "string",
       label: "AHJ",
+      description: "Authority having jurisdiction, matched to the known AHJs of the state of the address",
       constraints: [{ type: "required" }],
-      metadata: { group: "Stakeholder Info" }
+      metadata: { group: "Stakeholder Info", reference: "ahjs" }
     },
     {
       key: "hoa",
       type: "string",
       label: "HOA",
+      description: 'Matched to the known HOAs of the state of the address, "None" when there is no HOA',
       constraints: [{ type: "required" }],
-      metadata: { group: "Stakeholder Info" }
+      metadata: { group: "Stakeholder Info", reference: "hoas" }
     },
     {
       key: "sales_closer_name",
@@ -482,36 +686,23 @@ export const projectsSheet: Flatfile.SheetConfig = {
     },
     {
       key: "other_names",
-      type: "string",
+      type: "string-list",
       label: "Other Names",
+      description: "Secondary contacts, separate several names with commas or semicolons",
       metadata: { group: "Contact Info" }
     },
     {
       key: "other_emails",
-      type: "string",
+      type: "string-list",
       label: "Other Emails",
-      constraints: [
-        {
-          type: "external",
-          validator: "StringValidator",
-          config: {
-            type: ValidationType.EVALUATE_AND_FORMAT,
-            validationType: StringValidationType.IS_EMAIL,
-            formatOptions: { case: "lower", trim: true },
-            options: {
-              setRecord: true,
-              addError: true,
-              errorMsg: "Please enter a valid email address"
-            }
-          }
-        }
-      ],
+      description: "Separate several emails with commas or semicolons",
       metadata: { group: "Contact Info" }
     },
     {
       key: "other_phones",
-      type: "string",
+      type: "string-list",
       label: "Other Phones",
+      description: "Separate several phones with commas or semicolons",
       metadata: { group: "Contact Info" }
     },
 
@@ -524,9 +715,23 @@ export const projectsSheet: Flatfile.SheetConfig = {
     },
     {
       key: "mount_type",
-      type: "string",
+      type: "enum",
       label: "Mount Type",
-      metadata: { group: "Site Info" }
+      config: {
+        options: [
+          { value: "Roof", label: "Roof" },
+          { value: "Ground", label: "Ground" },
+          { value: "Carport", label: "Carport" },
+        ],
+      },
+      metadata: {
+        group: "Site Info",
+        synonyms: {
+          "Roof": ["rooftop", "roof mount"],
+          "Ground": ["ground mount", "pole mount"],
+          "Carport": ["car port", "canopy"],
+        },
+      }
     },
     {
       key: "utility_bill_monthly",
@@ -547,13 +752,29 @@ export const projectsSheet: Flatfile.SheetConfig = {
           }
         }
       ],
-      metadata: { group: "Site Info" }
+      metadata: { group: "Site Info", unit: "USD" }
     },
     {
       key: "roof_type",
-      type: "string",
+      type: "enum",
       label: "Roof Type",
-      metadata: { group: "Site Info" }
+      config: {
+        options: [
+          { value: "Composition Shingle", label: "Composition Shingle" },
+          { value: "Tile", label: "Tile" },
+          { value: "Metal", label: "Metal" },
+          { value: "Flat", label: "Flat" },
+        ],
+      },
+      metadata: {
+        group: "Site Info",
+        synonyms: {
+          "Composition Shingle": ["comp shingle", "comp", "asphalt shingle", "shingle"],
+          "Tile": ["concrete tile", "clay tile", "spanish tile", "s tile"],
+          "Metal": ["standing seam", "corrugated metal", "tin"],
+          "Flat": ["tpo", "epdm", "membrane", "torch down", "built up"],
+        },
+      }
     },
     {
       key: "roof_age",
@@ -565,18 +786,52 @@ export const projectsSheet: Flatfile.SheetConfig = {
       key: "pitch_angle_deg",
       type: "string",
       label: "Pitch Angle (deg)",
+      description: "Roof pitch in degrees, rise/run like 6/12 is converted",
+      constraints: [
+        {
+          type: "external",
+          validator: "RoofValidator",
+          config: {
+            type: RoofValidationType.PITCH,
+            options: { setRecord: true, addInfo: true, addError: true }
+          }
+        }
+      ],
       metadata: { group: "Site Info" }
     },
     {
       key: "azimuth_angle_deg",
       type: "string",
       label: "Azimuth Angle (deg)",
+      description: "Array azimuth in degrees clockwise from north, compass directions like SSW are converted",
+      constraints: [
+        {
+          type: "external",
+          validator: "RoofValidator",
+          config: {
+            type: RoofValidationType.AZIMUTH,
+            hemisphere: "north",
+            options: { setRecord: true, addInfo: true, addError: true, addWarning: true }
+          }
+        }
+      ],
       metadata: { group: "Site Info" }
     },
     {
       key: "tilt_angle_deg",
       type: "string",
       label: "Tilt Angle (deg)",
+      description: "Panel tilt in degrees, rise/run like 6/12 is converted",
+      constraints: [
+        {
+          type: "external",
+          validator: "RoofValidator",
+          config: {
+            type: RoofValidationType.TILT,
+            options: { setRecord: true, addInfo: true, addError: true }
+          }
+        }
+      ],
       metadata: { group: "Site Info" }
     },
 
@@ -621,13 +876,15 @@ export const projectsSheet: Flatfile.SheetConfig = {
       key: "cancellation_notes",
       type: "string",
       label: "Cancellation Notes",
-      metadata: { group: "Notes" }
+      metadata: { group: "Notes", requiredWhen: { field: "status", in: ["Canceled"] } }
     },
     {
       key: "wifi_username_password",
       type: "string",
       label: "WiFi Username & Password",
-      metadata: { group: "Notes" }
+      description: "Encrypted once imported, only sent decrypted to Coperniq",
+      // Sensitive values are sealed into the record metadata and masked in the sheet, previews and logs
+      metadata: { group: "Notes", sensitive: true }
     },
 
     // Key Dates Fields
@@ -675,7 +932,7 @@ export const projectsSheet: Flatfile.SheetConfig = {
           }
         }
       ],
-      metadata: { group: "Key Dates" }
+      metadata: { group: "Key Dates", requiredWhen: [{ field: "stage", atLeast: "Engineering" }, { field: "status", notIn: ["Canceled"] }] }
     },
     {
       key: "engineering_completed_date",
@@ -698,7 +955,7 @@ export const projectsSheet: Flatfile.SheetConfig = {
           }
         }
       ],
-      metadata: { group: "Key Dates" }
+      metadata: { group: "Key Dates", requiredWhen: [{ field: "stage", atLeast: "Permitting" }, { field: "status", notIn: ["Canceled"] }] }
     },
     {
       key: "permit_applied_date",
@@ -721,7 +978,7 @@ export const projectsSheet: Flatfile.SheetConfig = {
           }
         }
       ],
-      metadata: { group: "Key Dates" }
+      metadata: { group: "Key Dates", requiredWhen: [{ field: "stage", atLeast: "Install" }, { field: "status", notIn: ["Canceled"] }] }
     },
     {
       key: "permit_received_date",
@@ -744,7 +1001,7 @@ export const projectsSheet: Flatfile.SheetConfig = {
           }
         }
       ],
-      metadata: { group: "Key Dates" }
+      metadata: { group: "Key Dates", requiredWhen: [{ field: "stage", atLeast: "Install" }, { field: "status", notIn: ["Canceled"] }] }
     },
     {
       key: "installation_completed_date",
@@ -767,7 +1024,7 @@ export const projectsSheet: Flatfile.SheetConfig = {
           }
         }
       ],
-      metadata: { group: "Key Dates" }
+      metadata: { group: "Key Dates", requiredWhen: [{ field: "stage", atLeast: "Inspection" }, { field: "status", notIn: ["Canceled"] }] }
     },
     {
       key: "inspection_passed_date",
@@ -790,7 +1047,7 @@ export const projectsSheet: Flatfile.SheetConfig = {
           }
         }
       ],
-      metadata: { group: "Key Dates" }
+      metadata: { group: "Key Dates", requiredWhen: [{ field: "stage", atLeast: "PTO" }, { field: "status", notIn: ["Canceled"] }] }
     },
     {
       key: "pto_applied_date",
@@ -813,7 +1070,7 @@ export const projectsSheet: Flatfile.SheetConfig = {
           }
         }
       ],
-      metadata: { group: "Key Dates" }
+      metadata: { group: "Key Dates", requiredWhen: [{ field: "stage", atLeast: "Complete" }, { field: "status", notIn: ["Canceled"] }] }
     },
     {
       key: "pto_received_date",
@@ -836,7 +1093,16 @@ export const projectsSheet: Flatfile.SheetConfig = {
           }
         }
       ],
-      metadata: { group: "Key Dates" }
+      metadata: { group: "Key Dates", requiredWhen: [{ field: "stage", atLeast: "Complete" }, { field: "status", notIn: ["Canceled"] }] }
+    },
+    // Data Quality Fields
+    {
+      key: "completeness_score",
+      type: "number",
+      label: "Completeness (%)",
+      description: "Share of the Standard, System Info, Financial Info and Stakeholder Info fields filled, set by Check Data Quality",
+      readonly: true,
+      metadata: { submit: false }
     },
   ],
 }; 
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { Flatfile } from "@flatfile/api";
+
+/**
+ * Maps the names and emails people are written with on the projects to their Coperniq users.
+ * Maintained by the user, read by the Extract Team Members action.
+ */
+export const rosterSheet: Flatfile.SheetConfig = {
+  name: "Roster",
+  slug: "roster",
+  readonly: false,
+  allowAdditionalFields: false,
+  fields: [
+    {
+      key: "name",
+      type: "string",
+      label: "Name or Email",
+      description: 'As written on the projects, e.g. "J. Doe" or jane@example.com',
+      constraints: [{ type: "required" }, { type: "unique" }]
+    },
+    {
+      key: "coperniq_user_id",
+      type: "string",
+      label: "Coperniq User",
+      constraints: [{ type: "required" }]
+    }
+  ]
+};
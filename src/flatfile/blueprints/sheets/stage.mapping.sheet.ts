@@ -0,0 +1,44 @@
+import { Flatfile } from "@flatfile/api";
+import { applyStageMappingDeclaration } from "../../actions/apply.stage.mapping.action";
+
+/**
+ * Mapping of the legacy stages of each workflow onto Coperniq stages.
+ * Rows are collected from the projects sheet after every import, the user fills in the Coperniq stage.
+ */
+export const stageMappingSheet: Flatfile.SheetConfig = {
+  name: "Stage Mapping",
+  slug: "stage-mapping",
+  readonly: false,
+  allowAdditionalFields: false,
+  actions: [
+    applyStageMappingDeclaration
+  ],
+  fields: [
+    {
+      key: "workflow",
+      type: "string",
+      label: "Workflow",
+      readonly: true
+    },
+    {
+      key: "legacy_stage",
+      type: "string",
+      label: "Legacy Stage",
+      readonly: true
+    },
+    {
+      key: "project_count",
+      type: "number",
+      label: "Projects",
+      description: "Number of projects in this workflow and legacy stage",
+      readonly: true
+    },
+    {
+      key: "stage",
+      type: "string",
+      label: "Coperniq Stage",
+      description: "Stage the projects are set to when the mapping is applied",
+      constraints: [{ type: "required" }]
+    }
+  ]
+};
@@ -0,0 +1,78 @@
+import { Flatfile } from "@flatfile/api";
+
+/**
+ * Ledger of the Submit action, one row per batch delivery.
+ * The hashes of the projects in an accepted batch are kept in the row's `metadata.recordHashes`
+ * so that a re-submission can skip projects that were already accepted unchanged.
+ */
+export const submissionsSheet: Flatfile.SheetConfig = {
+  name: "Submissions",
+  slug: "submissions",
+  readonly: true,
+  allowAdditionalFields: false,
+  fields: [
+    {
+      key: "submitted_at",
+      type: "date",
+      label: "Submitted At",
+      readonly: true
+    },
+    {
+      key: "job_id",
+      type: "string",
+      label: "Job",
+      readonly: true
+    },
+    {
+      key: "target",
+      type: "string",
+      label: "Target",
+      description: "Name of the submission target",
+      readonly: true
+    },
+    {
+      key: "batch_number",
+      type: "number",
+      label: "Batch",
+      readonly: true
+    },
+    {
+      key: "record_count",
+      type: "number",
+      label: "Records",
+      readonly: true
+    },
+    {
+      key: "payload_hash",
+      type: "string",
+      label: "Payload Hash",
+      description: "SHA-256 of the hashes of the batch's projects, taken with their sensitive values sealed",
+      readonly: true
+    },
+    {
+      key: "http_status",
+      type: "number",
+      label: "HTTP Status",
+      description: "Empty when the receiver could not be reached",
+      readonly: true
+    },
+    {
+      key: "attempts",
+      type: "number",
+      label: "Attempts",
+      readonly: true
+    },
+    {
+      key: "response_excerpt",
+      type: "string",
+      label: "Response",
+      readonly: true
+    },
+    {
+      key: "duration_ms",
+      type: "number",
+      label: "Duration (ms)",
+      readonly: true
+    }
+  ]
+};
@@ -0,0 +1,58 @@
+import { Flatfile } from "@flatfile/api";
+
+/**
+ * People mentioned on the projects (sales reps, project managers, closers and owners), one per email.
+ * Rows are built by the Extract Team Members action, the Coperniq user of each person comes from the Roster sheet.
+ */
+export const teamMembersSheet: Flatfile.SheetConfig = {
+  name: "Team Members",
+  slug: "team-members",
+  readonly: true,
+  allowAdditionalFields: false,
+  fields: [
+    {
+      key: "name",
+      type: "string",
+      label: "Name",
+      description: "Spelling used on the most projects"
+    },
+    {
+      key: "email",
+      type: "string",
+      label: "Email",
+      description: "Empty for people only mentioned by name"
+    },
+    {
+      key: "aliases",
+      type: "string-list",
+      label: "Other Spellings",
+      readonly: true
+    },
+    {
+      key: "roles",
+      type: "string-list",
+      label: "Roles",
+      readonly: true
+    },
+    {
+      key: "project_count",
+      type: "number",
+      label: "Projects",
+      readonly: true
+    },
+    {
+      key: "coperniq_user_id",
+      type: "string",
+      label: "Coperniq User",
+      description: "From the Roster, matched by email or by any spelling of the name",
+      readonly: true
+    },
+    {
+      key: "issues",
+      type: "string",
+      label: "Issues",
+      description: "Inconsistent names and emails across projects, for a human to check",
+      readonly: true
+    }
+  ]
+};
@@ -1,13 +1,20 @@
 import { Flatfile } from "@flatfile/api";
 import { projectsSheet } from "../sheets/projects.sheet";
 import { clientsSheet } from "../sheets/clients.sheet";
+import { teamMembersSheet } from "../sheets/team.members.sheet";
+import { rosterSheet } from "../sheets/roster.sheet";
+import { submissionsSheet } from "../sheets/submissions.sheet";
+import { stageMappingSheet } from "../sheets/stage.mapping.sheet";
+import { decryptionsSheet } from "../sheets/decryptions.sheet";
+import { dataQualitySheet } from "../sheets/data.quality.sheet";
 import { submitActionDeclaration } from "../../actions/submit.action";
+import { previewSubmissionDeclaration } from "../../actions/preview.submission.action";
 
 const workbook: Flatfile.CreateWorkbookConfig = {
   name: "Intake Workbook",
   labels: ["pinned"],
-  sheets: [projectsSheet, clientsSheet],
-  actions: [submitActionDeclaration]
+  sheets: [projectsSheet, clientsSheet, teamMembersSheet, rosterSheet, stageMappingSheet, submissionsSheet, decryptionsSheet, dataQualitySheet],
+  actions: [submitActionDeclaration, previewSubmissionDeclaration]
 };
 
 export default workbook;
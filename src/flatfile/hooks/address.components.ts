@@ -0,0 +1,41 @@
+import { FlatfileRecord } from "@flatfile/hooks";
+import { AddressParser } from "../../../support/utils/common/address";
+import { keepOriginal } from "./original.values";
+
+/**
+ * Components an address field is split into, stored in the fields `<key>_street`, `<key>_city`, `<key>_state` and `<key>_zip`
+ */
+const COMPONENTS = ["street", "city", "state", "zip"] as const;
+
+/**
+ * Splits a free-text address into its street, city, state and ZIP fields and rewrites it in its normalized form,
+ * keeping the address as imported in the record metadata.
+ * Addresses that can't be split are flagged with an error, and ZIPs that are malformed or outside the state on the ZIP field.
+ *
+ * @param record - The record holding the address
+ * @param key - The field key holding the address, e.g. "address"
+ */
+export function splitAddress(record: FlatfileRecord, key: string) {
+  const value = record.get(key);
+  const address = AddressParser.parse(value);
+  COMPONENTS.forEach((component) => record.set(`${key}_${component}`, address?.[component] || null));
+  if (!address) {
+    if (value) {
+      record.addError(key, `Address can't be split into street, city, state and ZIP, please write it like "123 Main St, Springfield, IL 62701"`);
+    }
+    return;
+  }
+
+  const formatted = AddressParser.format(address);
+  if (formatted !== value) {
+    keepOriginal(record, key, value);
+    record.set(key, formatted);
+  }
+  AddressParser.check(address).forEach(({ component, severity, message }) => {
+    if (severity === "error") {
+      record.addError(`${key}_${component}`, message);
+    } else {
+      record.addWarning(`${key}_${component}`, message);
+    }
+  });
+}
@@ -0,0 +1,17 @@
+import { bulkRecordHook } from "@flatfile/plugin-record-hook";
+import { splitAddress } from "./address.components";
+
+/**
+ * Record hook for the clients sheet.
+ * Surfaces the borderline matches found by Extract Clients as warnings
+ * so that a human can confirm whether the clients are the same, and splits the address into its components.
+ */
+export default bulkRecordHook('clients', (records) => {
+  records.forEach((record) => {
+    splitAddress(record, 'address');
+    const duplicates = record.get('possible_duplicates') as string;
+    if (duplicates) {
+      record.addWarning(['primary_name', 'primary_email'], `Possible duplicate of ${duplicates}. Please confirm.`);
+    }
+  });
+});
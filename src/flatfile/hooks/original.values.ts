@@ -0,0 +1,17 @@
+import { FlatfileRecord } from "@flatfile/hooks";
+
+/**
+ * Keeps the value of a field as it was imported in the record's `metadata.original`, before a hook rewrites it.
+ * The first original is kept, so running the hook again on the rewritten value doesn't overwrite it.
+ *
+ * @param record - The record being rewritten
+ * @param key - The field key
+ * @param value - The value as imported
+ */
+export function keepOriginal(record: FlatfileRecord, key: string, value: unknown) {
+  const metadata = record.getMetadata() as { original?: Record<string, unknown> };
+  if (metadata.original?.[key] !== undefined) {
+    return;
+  }
+  record.setMetadata({ ...metadata, original: { ...metadata.original, [key]: value } });
+}
@@ -1,18 +1,250 @@
 import { bulkRecordHook } from "@flatfile/plugin-record-hook";
+import { Flatfile } from "@flatfile/api";
 import {parsePhoneNumberWithError, isPossiblePhoneNumber, isValidPhoneNumber, validatePhoneNumberLength  }from 'libphonenumber-js'
+import { StageInference } from "../../../support/utils/common/stages";
+import { EnumMatcher } from "../../../support/utils/common/matching";
+import { RequiredValidator, RequiredWhen, StringValidator } from "../../../support/utils/common/validation";
+import { asQuantity, Unit, UnitError } from "../../../support/utils/casting";
+import { projectsSheet } from "../blueprints/sheets/projects.sheet";
+import { keepOriginal } from "./original.values";
+import { splitAddress } from "./address.components";
+import { canonicalize } from "./reference.values";
+import { sealSensitive } from "./sensitive.values";
+import { stageMappingKey } from "../jobs/collect.stages.job";
+
+/**
+ * Infers the stage of a project from its milestone dates, with the stages declared on the projects sheet
+ */
+const stageInference = new StageInference(projectsSheet.metadata.stages);
+
+/**
+ * Fields declaring the unit their numbers are in with `metadata.unit`
+ */
+const unitFields = projectsSheet.fields
+  .filter((field) => field.metadata?.unit)
+  .map((field) => ({ key: field.key, unit: field.metadata.unit as Unit }));
+
+/**
+ * Fields declaring their values sensitive with `metadata.sensitive`
+ */
+const sensitiveFields = projectsSheet.fields
+  .filter((field) => field.metadata?.sensitive)
+  .map((field) => field.key);
+
+/**
+ * Fields naming an entity of a bundled reference list with `metadata.reference`, e.g. the utility company
+ */
+const referenceFields = projectsSheet.fields
+  .filter((field) => field.metadata?.reference)
+  .map((field) => ({ key: field.key, label: field.label, list: field.metadata.reference as string }));
+
+/**
+ * Fields required only when the conditions of their `metadata.requiredWhen` hold, with the stages in order for `atLeast`.
+ * Stages are compared by their canonical name, so that stages written with an alias are ordered too.
+ */
+const requiredFields = projectsSheet.fields
+  .filter((field) => field.metadata?.requiredWhen)
+  .map((field) => ({ key: field.key, when: field.metadata.requiredWhen as RequiredWhen }));
+const requiredContext = {
+  orders: { stage: projectsSheet.metadata.stages.map((stage) => stage.name) },
+  canonical: { stage: (value: unknown) => stageInference.canonical(value) },
+  labels: Object.fromEntries(projectsSheet.fields.map((field) => [field.key, field.label])),
+};
+
+/**
+ * Enum fields with a matcher built from their options and the `metadata.synonyms` and `metadata.fuzzy` declared on them
+ */
+const enumFields = projectsSheet.fields
+  .filter((field): field is Flatfile.Property.Enum | Flatfile.Property.EnumList => field.type === "enum" || field.type === "enum-list")
+  .map((field) => ({
+    key: field.key,
+    label: field.label,
+    list: field.type === "enum-list",
+    matcher: new EnumMatcher(
+      field.config.options.map((option) => ({ value: String(option.value), label: option.label })),
+      { synonyms: field.metadata?.synonyms, fuzzy: field.metadata?.fuzzy },
+    ),
+  }));
 
 /**
  * Record hook for the projects sheet that validates data as it's being imported.
  * This hook processes records in bulk for better performance.
- * Currently implements phone number validation for the primary_phone field.
+ * Currently implements phone number validation for the primary_phone field, splits and validates
+ * the secondary contact lists, splits the address into its components, converts numbers written with units,
+ * maps enum inputs onto their options, matches utilities, AHJs and HOAs to their reference lists in the state of the address,
+ * checks the stage against the milestone dates, flags legacy stages left unmapped by the stage mapping,
+ * requires the fields whose conditions hold and encrypts sensitive values.
  */
 export default bulkRecordHook('projects', (records, context) => {
-  // Process each record in the batch to validate phone numbers
+  // Process each record in the batch to validate phone numbers, contact lists, addresses, units, enums, entities, stages
+  // and conditionally required fields, then seal the sensitive values
   records.forEach((record) => {
     validatePhoneNumber(record, 'primary_phone');
+    splitList(record, 'other_names');
+    validateEmailList(record, 'other_emails');
+    validatePhoneList(record, 'other_phones');
+    splitAddress(record, 'address');
+    unitFields.forEach(({ key, unit }) => castUnit(record, key, unit));
+    enumFields.forEach((field) => matchEnum(record, field));
+    referenceFields.forEach(({ key, label, list }) => canonicalize(record, key, label, list, record.get("address_state") as string));
+    checkStage(record, 'stage');
+    checkStageMapping(record, 'legacy_stage');
+    requiredFields.forEach(({ key, when }) => RequiredValidator.requiredWhen(record, key, when, requiredContext, { addError: true }));
+    sensitiveFields.forEach((key) => sealSensitive(record, key));
   });
 });
 
+/**
+ * Converts a number written with a unit (e.g. "7200 W", "$35k", "25°") into the unit declared by the field,
+ * keeping the value as imported in the record metadata
+ *
+ * @param record - The project record
+ * @param key - The field key
+ * @param unit - The unit declared by the field
+ */
+function castUnit(record, key: string, unit: Unit) {
+  const value = record.get(key);
+  if (typeof value !== 'string' || !value.trim()) {
+    return;
+  }
+
+  try {
+    const quantity = asQuantity(value, unit);
+    if (String(quantity) !== value.trim()) {
+      keepOriginal(record, key, value);
+      record.set(key, quantity);
+    }
+  } catch (error) {
+    if (!(error instanceof UnitError)) {
+      throw error;
+    }
+    record.addError(key, `${error.message}, expected a number in ${unit}`);
+  }
+}
+
+/**
+ * Maps the input of an enum field onto its options, e.g. "PPA agreement" onto "PPA" or "solar + battery" onto
+ * ["Solar", "Storage"], keeping the value as imported in the record metadata.
+ * Inputs matching no option are left as imported and flagged with an error.
+ *
+ * @param record - The project record
+ * @param field - The enum field and its matcher
+ */
+function matchEnum(record, { key, label, list, matcher }: (typeof enumFields)[number]) {
+  const value = record.get(key);
+  if (value === null || value === undefined || value === "" || (Array.isArray(value) && value.length === 0)) {
+    return;
+  }
+
+  const expected = `expected one of ${matcher.values().join(", ")}`;
+  if (list) {
+    const { values, unmatched } = matcher.matchList(value);
+    const matched = [...values, ...unmatched];
+    if (JSON.stringify(matched) !== JSON.stringify(value)) {
+      keepOriginal(record, key, value);
+      record.set(key, matched);
+    }
+    if (unmatched.length > 0) {
+      record.addError(key, `${unmatched.map((item) => `"${item}"`).join(", ")} ${unmatched.length > 1 ? "aren't options" : "isn't an option"} of ${label}, ${expected}`);
+    }
+    return;
+  }
+
+  const match = matcher.match(value);
+  if (!match) {
+    record.addError(key, `"${value}" isn't an option of ${label}, ${expected}`);
+  } else if (match.value !== value) {
+    keepOriginal(record, key, value);
+    record.set(key, match.value);
+  }
+}
+
+/**
+ * Warns when the stage of a project contradicts its milestone dates,
+ * e.g. a project still in "Install" whose PTO has already been received
+ *
+ * @param record - The project record
+ * @param key - The field key holding the stage
+ */
+function checkStage(record, key) {
+  const { inferred, declared, matches } = stageInference.check((field) => record.get(field), key);
+  if (!matches) {
+    const reason = inferred.milestone ? `${inferred.milestone} is set` : "no milestone date is set";
+    record.addWarning(key, `Stage "${declared}" doesn't match the milestone dates: ${reason}, so the project is in "${inferred.stage}"`);
+  }
+}
+
+/**
+ * Flags the legacy stage of a project whose workflow and legacy stage pair had no Coperniq stage when the stage mapping
+ * was last applied. The Apply Stage Mapping action keeps the pair in the record's `metadata.unmappedStage`
+ * and removes it once the pair is mapped, a project moved to another pair isn't flagged anymore.
+ *
+ * @param record - The project record
+ * @param key - The field key holding the legacy stage
+ */
+function checkStageMapping(record, key: string) {
+  const { unmappedStage } = record.getMetadata() as { unmappedStage?: string };
+  if (unmappedStage !== undefined && unmappedStage === stageMappingKey(record.get('workflow'), record.get(key))) {
+    record.addError(key, 'No Coperniq stage is mapped to this workflow and legacy stage, set one in the Stage Mapping sheet and apply it');
+  }
+}
+
+/**
+ * Splits a list field typed as text, e.g. "Jane Doe; John Doe", into its items,
+ * keeping the value as imported in the record metadata
+ *
+ * @param record - The project record
+ * @param key - The field key holding the list
+ * @param normalize - Optional normalizer applied to every item
+ * @returns The items of the list
+ */
+function splitList(record, key: string, normalize: (item: string) => string = (item) => item): string[] {
+  const value = record.get(key);
+  if (value === null || value === undefined || value === '') {
+    return [];
+  }
+
+  const items = (Array.isArray(value) ? value : [value])
+    .flatMap((item) => String(item).split(/[,;\n]/))
+    .map((item) => normalize(item.trim()))
+    .filter(Boolean);
+  if (JSON.stringify(items) !== JSON.stringify(value)) {
+    keepOriginal(record, key, value);
+    record.set(key, items);
+  }
+  return items;
+}
+
+/**
+ * Splits a list of emails, lowercasing every email and flagging the invalid ones by name
+ *
+ * @param record - The project record
+ * @param key - The field key holding the emails
+ */
+function validateEmailList(record, key: string) {
+  splitList(record, key, (email) => email.toLowerCase())
+    .filter((email) => !StringValidator.isEmailAddress(email))
+    .forEach((email) => record.addError(key, `"${email}" is not a valid email address`));
+}
+
+/**
+ * Splits a list of phone numbers, normalizing every valid number to E.164 and flagging the invalid ones by number
+ *
+ * @param record - The project record
+ * @param key - The field key holding the phone numbers
+ */
+function validatePhoneList(record, key: string) {
+  const errors: string[] = [];
+  splitList(record, key, (phoneNumber) => {
+    const { phone, error } = parsePhone(phoneNumber);
+    if (error) {
+      errors.push(`"${phoneNumber}" is not a valid phone number (${error})`);
+    }
+    return phone ?? phoneNumber;
+  });
+  errors.forEach((error) => record.addError(key, error));
+}
+
 /**
  * Validates and normalizes a phone number field in a record
  * Uses libphonenumber-js for robust phone number validation
@@ -20,37 +252,48 @@ export default bulkRecordHook('projects', (records, context) => {
  * @param record - The record object containing the phone number
  * @param key - The field key containing the phone number (e.g., 'primary_phone')
  * 
- * Validation steps:
- * 1. Checks if phone number exists
- * 2. Attempts to parse the number (assumes US)
- * 3. Validates if the number is possible
- * 4. Validates if the number is valid
- * 5. If valid, normalizes to E.164 format
- * 
  * On success: Sets the normalized E.164 format
  * On failure: Adds appropriate error message to the record
  */
 function validatePhoneNumber(record, key) {
   let phoneNumber = record.get(key) as string; 
   if (!phoneNumber) return;  // Skip validation if no phone number provided
-  
+
+  const { phone, error } = parsePhone(phoneNumber);
+  if (error) {
+    record.addError(key, `Invalid phone number (${error})`);
+  } else {
+    record.set(key, phone);
+  }
+}
+
+/**
+ * Parses a phone number, assuming US when it has no country code
+ *
+ * Validation steps:
+ * 1. Attempts to parse the number (assumes US)
+ * 2. Validates if the number is possible
+ * 3. Validates if the number is valid
+ * 4. If valid, normalizes to E.164 format
+ *
+ * @param phoneNumber - The phone number as imported
+ * @returns The E.164 number, or why the number is rejected: "impossible", "invalid" or "error"
+ */
+function parsePhone(phoneNumber: string): { phone?: string; error?: string } {
   try {   
     // Attempt to parse the phone number (assumes US region)
     let parsedPhoneNumber = parsePhoneNumberWithError(phoneNumber, 'US')
     
     // Check if the number is possible (has correct length and pattern)
     if (!parsedPhoneNumber.isPossible()) {
-      record.addError('primary_phone', 'Invalid phone number (impossible)');
+      return { error: 'impossible' };
     } else if (!parsedPhoneNumber.isValid()) {  // Check if the number is valid (exists in the region)
-      record.addError('primary_phone', 'Invalid phone number (invalid)');
+      return { error: 'invalid' };
     } else {  // If all validation passes, normalize to E.164 format (+1234567890)
-      record.set('primary_phone', parsedPhoneNumber.format("E.164"));
+      return { phone: parsedPhoneNumber.format("E.164") };
     }
   } catch (error) {
     // Handle parsing errors (e.g., completely invalid format)
-    record.addError('primary_phone', 'Invalid phone number (error)');
+    return { error: 'error' };
   }
 }
-
-
-
@@ -0,0 +1,58 @@
+import { FlatfileRecord } from "@flatfile/hooks";
+import { ReferenceData } from "../../../support/utils/common/reference";
+import { keepOriginal } from "./original.values";
+
+/**
+ * Canonical ids of the matched entities are kept in the record's `metadata.references`, by field key
+ */
+export type ReferenceIds = Record<string, string>;
+
+/**
+ * Rewrites a free-text entity name (e.g. "PGE" or "Pacific Gas & Electric") with the canonical name of the entity
+ * it matches in a bundled reference list, keeping the value as imported and the canonical id in the record metadata.
+ * With a state, entities operating in it are preferred. Names matching no entity, or an entity outside the state, are kept and flagged with a warning,
+ * and a name matching no entity loses the canonical id of an earlier match.
+ *
+ * @param record - The record holding the name
+ * @param key - The field key
+ * @param label - The field label, used in the warnings
+ * @param list - The name of the reference list, e.g. "utilities"
+ * @param state - Two-letter abbreviation of the state of the record, if known
+ */
+export function canonicalize(record: FlatfileRecord, key: string, label: string, list: string, state?: string) {
+  const value = record.get(key);
+  const metadata = record.getMetadata() as { references?: ReferenceIds };
+  if (typeof value !== "string" || !value.trim()) {
+    forgetReference(record, key, metadata);
+    return;
+  }
+
+  const match = ReferenceData.list(list).match(value, { state });
+  if (!match) {
+    forgetReference(record, key, metadata);
+    record.addWarning(key, `"${value}" isn't a known ${label}, please check the spelling`);
+    return;
+  }
+  if (match.entity.name !== value) {
+    keepOriginal(record, key, value);
+    record.set(key, match.entity.name);
+  }
+  record.setMetadata({ ...record.getMetadata(), references: { ...metadata.references, [key]: match.entity.id } });
+  if (match.outOfState) {
+    record.addWarning(key, `${match.entity.name} doesn't operate in ${state}, please confirm the ${label}`);
+  }
+}
+
+/**
+ * Removes the canonical id of a field matched earlier, so a name that no longer matches is never submitted with it
+ *
+ * @param record - The record
+ * @param key - The field key
+ * @param metadata - The metadata of the record
+ */
+function forgetReference(record: FlatfileRecord, key: string, metadata: { references?: ReferenceIds }) {
+  if (metadata.references?.[key] !== undefined) {
+    const { [key]: _, ...references } = metadata.references;
+    record.setMetadata({ ...metadata, references });
+  }
+}
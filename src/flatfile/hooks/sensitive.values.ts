@@ -0,0 +1,47 @@
+import { FlatfileRecord } from "@flatfile/hooks";
+import { SensitiveCipher, SensitiveKeyError, SENSITIVE_MASK } from "../../../support/utils/common/sensitive";
+
+/**
+ * Sealed values are kept in the record's `metadata.sensitive`, by field key
+ */
+export type SealedValues = Record<string, string>;
+
+/**
+ * Cipher of the sensitive values, created on first use so that sheets without sensitive fields don't need a key
+ */
+let cipher: SensitiveCipher | undefined;
+
+/**
+ * Seals the value of a sensitive field into the record's `metadata.sensitive` and replaces it with a mask in the sheet.
+ * The masked value is left alone, so a field is only sealed again when a new value is typed in.
+ * Without a key the value can't be protected: it is kept and flagged with an error, so the record isn't submitted.
+ *
+ * @param record - The record holding the sensitive field
+ * @param key - The field key
+ */
+export function sealSensitive(record: FlatfileRecord, key: string) {
+  const value = record.get(key);
+  const metadata = record.getMetadata() as { sensitive?: SealedValues };
+  if (value === SENSITIVE_MASK) {
+    return;
+  }
+  if (value === null || value === undefined || value === "") {
+    if (metadata.sensitive?.[key] !== undefined) {
+      const { [key]: _, ...sensitive } = metadata.sensitive;
+      record.setMetadata({ ...metadata, sensitive });
+    }
+    return;
+  }
+
+  try {
+    cipher ??= SensitiveCipher.fromEnv();
+  } catch (error) {
+    if (!(error instanceof SensitiveKeyError)) {
+      throw error;
+    }
+    record.addError(key, `This value is sensitive and can't be stored unencrypted: ${error.message}`);
+    return;
+  }
+  record.setMetadata({ ...metadata, sensitive: { ...metadata.sensitive, [key]: cipher.seal(String(value)) } });
+  record.set(key, SENSITIVE_MASK);
+}
@@ -0,0 +1,30 @@
+import { bulkRecordHook } from "@flatfile/plugin-record-hook";
+import { StageInference } from "../../../support/utils/common/stages";
+import { projectsSheet } from "../blueprints/sheets/projects.sheet";
+
+/**
+ * Resolves the Coperniq stages typed in the mapping, with the stages declared on the projects sheet
+ */
+const stageInference = new StageInference(projectsSheet.metadata.stages);
+
+/**
+ * Record hook for the Stage Mapping sheet.
+ * Writes the Coperniq stage of every pair as the name of a known stage, so "permits" becomes "Permitting",
+ * and flags stages that aren't known so that a typo never reaches the projects when the mapping is applied.
+ * Pairs without a stage are flagged by the required constraint.
+ */
+export default bulkRecordHook('stage-mapping', (records) => {
+  records.forEach((record) => {
+    const stage = record.get('stage');
+    if (stage === null || stage === undefined || stage === '') {
+      return;
+    }
+    const canonical = stageInference.canonical(stage);
+    if (!canonical) {
+      const stages = projectsSheet.metadata.stages.map((known) => known.name).join(', ');
+      record.addError('stage', `"${stage}" isn't a Coperniq stage, expected one of ${stages}`);
+    } else if (canonical !== stage) {
+      record.set('stage', canonical);
+    }
+  });
+});
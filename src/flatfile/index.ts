@@ -2,11 +2,19 @@ import FlatfileListener, { Listener } from "@flatfile/listener";
 import { ExcelExtractor } from "@flatfile/plugin-xlsx-extractor";
 
 import { instrumentRequests } from "../../support/instrument.requests";
-import { addDateValidator, addStringValidator, addNumberValidator } from "../../support/utils/common/validation";
+import { addDateValidator, addStringValidator, addNumberValidator, addSequenceValidator, addRatioValidator, addSolarValidator, addRoofValidator } from "../../support/utils/common/validation";
 import { extractClientsHandler } from "./actions/extract.clients.action";
+import { extractTeamMembersHandler } from "./actions/extract.team.members.action";
+import { checkDataQualityHandler } from "./actions/check.data.quality.action";
+import { inferStagesHandler } from "./actions/infer.stages.action";
+import { applyStageMappingHandler } from "./actions/apply.stage.mapping.action";
+import { collectStagesAfterImport, collectStagesHandler } from "./jobs/collect.stages.job";
 import spaceConfigure from "./space.configure";
 import projectsHooks from "./hooks/projects.hooks";
+import clientsHooks from "./hooks/clients.hooks";
+import stageMappingHooks from "./hooks/stage.mapping.hooks";
 import { submitActionHandler } from "./actions/submit.action";
+import { previewSubmissionHandler } from "./actions/preview.submission.action";
 
 instrumentRequests();
 
@@ -18,11 +26,24 @@ export default function (listener: FlatfileListener) {
   listener.use(addDateValidator);
   listener.use(addStringValidator);
   listener.use(addNumberValidator);
+  listener.use(addSequenceValidator);
+  listener.use(addRatioValidator);
+  listener.use(addSolarValidator);
+  listener.use(addRoofValidator);
 
   listener.use(projectsHooks);
+  listener.use(clientsHooks);
+  listener.use(stageMappingHooks);
 
   listener.use(extractClientsHandler);
+  listener.use(extractTeamMembersHandler);
+  listener.use(checkDataQualityHandler);
+  listener.use(inferStagesHandler);
+  listener.use(applyStageMappingHandler);
+  listener.use(collectStagesHandler);
+  listener.use(collectStagesAfterImport);
   listener.use(submitActionHandler);
+  listener.use(previewSubmissionHandler);
 
   listener.on("**", (event) => {
     console.log(`Received event: ${event.topic}`);
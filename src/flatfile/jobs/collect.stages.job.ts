@@ -0,0 +1,123 @@
+import { FlatfileEvent, FlatfileListener } from "@flatfile/listener";
+import { jobHandler } from "@flatfile/plugin-job-handler";
+import api from "@flatfile/api";
+import { KnownWorkbook } from "../../../support/utils/blueprint/known.workbook";
+import { getWorkbook } from "../../../support/utils/get.workbook";
+import { ProgressTracker } from "../../../support/utils/progress.tracker";
+import { formatRecord, formatUpdate, SimpleRecord } from "../../../support/utils/records";
+
+/**
+ * Operation of the job collecting the stages of the projects into the Stage Mapping sheet
+ */
+const COLLECT_STAGES_OPERATION = "collect-stages";
+
+/**
+ * Result of collecting the stages
+ */
+export interface CollectedStages {
+  added: number;
+  removed: number;
+}
+
+/**
+ * Key of a workflow and legacy stage pair, ignoring surrounding whitespace
+ *
+ * @param workflow - The workflow of a project
+ * @param legacyStage - The legacy stage of a project
+ */
+export function stageMappingKey(workflow: unknown, legacyStage: unknown): string {
+  return `${String(workflow ?? "").trim()}\u0000${String(legacyStage ?? "").trim()}`;
+}
+
+/**
+ * Collects the distinct workflow and legacy stage pairs of the projects sheet into the Stage Mapping sheet.
+ * Pairs already in the mapping keep their Coperniq stage and get their project count refreshed,
+ * new pairs are added without a stage and pairs no project uses anymore are removed.
+ *
+ * @param workbook - The workbook holding the projects and Stage Mapping sheets
+ * @param progress - Optional tracker reporting the projects loaded, under the "Collecting stages" module
+ */
+export async function collectStages(workbook: KnownWorkbook<any>, progress?: ProgressTracker): Promise<CollectedStages> {
+  const projectsSheet = workbook.sheet("projects");
+  const mappingSheet = workbook.sheet("stage-mapping");
+
+  // Count the projects of every workflow and legacy stage pair, page by page
+  const pairs = new Map<string, SimpleRecord>();
+  const projects = projectsSheet.getAllRecords();
+  if (progress) {
+    projects.track(progress, "Collecting stages", (await projectsSheet.counts()).total);
+  }
+  await projects.each((page) => {
+    page.forEach(project => {
+      const key = stageMappingKey(project["workflow"], project["legacy_stage"]);
+      const pair = pairs.get(key) ?? {
+        workflow: String(project["workflow"] ?? "").trim(),
+        legacy_stage: String(project["legacy_stage"] ?? "").trim(),
+        project_count: 0,
+      };
+      pair.project_count = (pair.project_count as number) + 1;
+      pairs.set(key, pair);
+    });
+  });
+
+  // Upsert the pairs into the mapping, keeping the stages filled in by the user
+  const mappings = await mappingSheet.getAllRecords().all();
+  const existing = new Map(mappings.map(mapping => [stageMappingKey(mapping["workflow"], mapping["legacy_stage"]), mapping]));
+  const inserts = Array.from(pairs).filter(([key]) => !existing.has(key)).map(([, pair]) => pair);
+  const updates = Array.from(pairs)
+    .filter(([key, pair]) => existing.has(key) && existing.get(key)["project_count"] !== pair.project_count)
+    .map(([key, pair]) => ({ id: existing.get(key).id, project_count: pair.project_count }));
+  const removals = mappings
+    .filter(mapping => !pairs.has(stageMappingKey(mapping["workflow"], mapping["legacy_stage"])))
+    .map(mapping => mapping.id as string);
+
+  if (inserts.length > 0) {
+    await api.records.insert(mappingSheet.id, inserts.map(formatRecord));
+  }
+  if (updates.length > 0) {
+    await api.records.update(mappingSheet.id, updates.map(formatUpdate));
+  }
+  if (removals.length > 0) {
+    await api.records.delete(mappingSheet.id, { ids: removals });
+  }
+  return { added: inserts.length, removed: removals.length };
+}
+
+/**
+ * Handler for the job collecting the stages, run in the background after every import
+ */
+export const collectStagesHandler = jobHandler(`sheet:${COLLECT_STAGES_OPERATION}`, async (event) => {
+  const { jobId, workbookId } = event.context;
+
+  await api.jobs.ack(jobId, {
+    info: "Collecting the stages of the projects",
+    progress: 5,
+  });
+  const progress = new ProgressTracker(jobId).add("Collecting stages", "l");
+  const { added, removed } = await collectStages(await getWorkbook(workbookId), progress);
+
+  await api.jobs.complete(jobId, {
+    info: `Collected the stages of the projects: ${added} added, ${removed} removed`,
+  });
+});
+
+/**
+ * Keeps the Stage Mapping sheet up to date by collecting the stages once an import into the workbook is mapped
+ */
+export function collectStagesAfterImport(listener: FlatfileListener) {
+  listener.on("job:completed", { job: "workbook:map" }, async (event: FlatfileEvent) => {
+    const { workbookId } = event.context;
+    const workbook = await getWorkbook(workbookId);
+    if (!workbook.hasSheet("stage-mapping")) {
+      return;
+    }
+
+    const job = await api.jobs.create({
+      type: "sheet",
+      operation: COLLECT_STAGES_OPERATION,
+      source: workbook.sheet("stage-mapping").id,
+      mode: "background",
+    });
+    await api.jobs.execute(job.data.id);
+  });
+}
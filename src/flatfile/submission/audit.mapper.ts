@@ -0,0 +1,13 @@
+import { RecordWithMeta } from "../../../support/utils/records";
+import { PayloadMapper } from "./payload.mapper";
+
+/**
+ * Maps a record onto a flat audit entry holding its values exactly as they are in the sheet,
+ * for internal endpoints that keep a copy of what was submitted.
+ */
+export class AuditRecordMapper implements PayloadMapper {
+  map(record: RecordWithMeta): Record<string, unknown> {
+    const { id, metadata, ...values } = record;
+    return { external_id: id, values };
+  }
+}
@@ -0,0 +1,158 @@
+import { Flatfile } from "@flatfile/api";
+import { SensitiveCipher } from "../../../support/utils/common/sensitive";
+import { RecordWithMeta, SimpleRecord } from "../../../support/utils/records";
+import { ReferenceIds } from "../hooks/reference.values";
+import { SealedValues } from "../hooks/sensitive.values";
+import { PayloadMapper } from "./payload.mapper";
+
+/**
+ * Payload section of each field group (`metadata.group`), fields of the "Standard" group stay at the top level
+ */
+const GROUP_SECTIONS: Record<string, string | null> = {
+  "Standard": null,
+  "System Info": "system",
+  "Financial Info": "financials",
+  "Stakeholder Info": "stakeholders",
+  "Contact Info": "contacts",
+  "Site Info": "site",
+  "Notes": "notes",
+  "Key Dates": "milestones",
+};
+
+/**
+ * Project fields describing the client, nested under `client` with their Coperniq names
+ */
+const CLIENT_FIELDS: Record<string, string> = {
+  primary_name: "name",
+  primary_email: "email",
+  primary_phone: "phone",
+  address: "address",
+  address_street: "street",
+  address_city: "city",
+  address_state: "state",
+  address_zip: "zip",
+};
+
+/**
+ * Metadata a project record carries for the payload, set by the projects hooks and the Extract Team Members action
+ */
+interface ProjectMetadata {
+  /** Canonical ids of the entities matched in the reference lists, by field key */
+  references?: ReferenceIds;
+  /** Coperniq users of the people fields, by field key */
+  people?: Record<string, string>;
+  /** Sealed values of the sensitive fields, by field key */
+  sensitive?: SealedValues;
+}
+
+/**
+ * Maps a projects sheet record onto the shape of Coperniq's project import API:
+ * client fields nested under `client`, every other field nested in the section of its `metadata.group`,
+ * and fields outside the blueprint under `custom`. Entities matched in the reference lists carry their canonical id,
+ * and people their Coperniq user.
+ * Sensitive fields are masked in the sheet, they are decrypted from the record's `metadata.sensitive`
+ * only when the mapper is given an audit to report each decryption to, a preview keeps them masked.
+ */
+export class CoperniqProjectMapper implements PayloadMapper {
+  private readonly sections: Map<string, string | null>;
+  private readonly skipped: Set<string>;
+  private readonly sensitive: string[];
+  private cipher?: SensitiveCipher;
+
+  /**
+   * @param fields - The fields of the projects sheet, their `metadata.group` decides where they are nested
+   * @param audit - Called for every sensitive value decrypted, sensitive values stay masked without it
+   */
+  constructor(
+    fields: Flatfile.Property[],
+    private readonly audit?: (recordId: string, field: string) => void,
+  ) {
+    this.sections = new Map(fields.map(field => [field.key, GROUP_SECTIONS[field.metadata?.group] ?? "custom"]));
+    // links between sheets (e.g. the client reference) are already expressed by the nesting,
+    // and fields with `metadata.submit: false` (e.g. the completeness score) only serve the import
+    this.skipped = new Set(
+      fields.filter(field => field.type === "reference" || field.metadata?.submit === false).map(field => field.key),
+    );
+    this.sensitive = fields.filter(field => field.metadata?.sensitive).map(field => field.key);
+  }
+
+  map(record: RecordWithMeta): Record<string, unknown> {
+    const { sensitive = {} } = (record.metadata ?? {}) as ProjectMetadata;
+    return this.build(record, this.audit ? this.decrypt(record, sensitive) : record);
+  }
+
+  /**
+   * Maps a record with its sensitive values sealed, never decrypting them.
+   * Sealed values only change when a new value is typed in, so the payload tells whether a project changed.
+   */
+  seal(record: RecordWithMeta): Record<string, unknown> {
+    const { sensitive = {} } = (record.metadata ?? {}) as ProjectMetadata;
+    const sealed: SimpleRecord = { ...record };
+    this.sensitive.filter(key => sensitive[key] !== undefined).forEach(key => (sealed[key] = sensitive[key]));
+    return this.build(record, sealed);
+  }
+
+  /**
+   * Builds the payload of a record
+   *
+   * @param record - The record, with its metadata
+   * @param values - The values to submit, masked, sealed or decrypted
+   */
+  private build(record: RecordWithMeta, values: SimpleRecord): Record<string, unknown> {
+    const { references = {}, people = {} } = (record.metadata ?? {}) as ProjectMetadata;
+    const payload: Record<string, any> = { external_id: record.id, client: {} };
+    for (const [key, value] of Object.entries(values)) {
+      if (key === "id" || key === "metadata" || this.skipped.has(key)) {
+        continue;
+      }
+      if (key in CLIENT_FIELDS) {
+        payload.client[CLIENT_FIELDS[key]] = value;
+        continue;
+      }
+      this.place(payload, key, key, value);
+    }
+    // the canonical ids of the entities matched in the reference lists sit next to their names, e.g. `utility_company_id`,
+    // and so do the Coperniq users of the people, e.g. `sales_rep_user_id`
+    for (const [key, id] of Object.entries(references)) {
+      this.place(payload, key, `${key}_id`, id);
+    }
+    for (const [key, userId] of Object.entries(people)) {
+      this.place(payload, key, `${key}_user_id`, userId);
+    }
+    return payload;
+  }
+
+  /**
+   * Sets a value in the section of a field
+   *
+   * @param payload - The payload being built
+   * @param field - The field deciding the section
+   * @param key - The key of the value in the section
+   * @param value - The value
+   */
+  private place(payload: Record<string, any>, field: string, key: string, value: unknown) {
+    const section = this.sections.has(field) ? this.sections.get(field) : "custom";
+    if (section === null) {
+      payload[key] = value;
+    } else {
+      payload[section] = { ...payload[section], [key]: value };
+    }
+  }
+
+  /**
+   * Replaces the masked sensitive values of a record with their decrypted values
+   *
+   * @param record - The record
+   * @param sealed - The sealed values of the record, from its `metadata.sensitive`
+   * @throws SensitiveKeyError when the key isn't configured or isn't the key the values were sealed with
+   */
+  private decrypt(record: SimpleRecord, sealed: SealedValues): SimpleRecord {
+    const decrypted = { ...record };
+    for (const key of this.sensitive.filter(key => sealed[key] !== undefined)) {
+      this.cipher ??= SensitiveCipher.fromEnv();
+      decrypted[key] = this.cipher.open(sealed[key]);
+      this.audit(String(record.id), key);
+    }
+    return decrypted;
+  }
+}
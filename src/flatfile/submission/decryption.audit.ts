@@ -0,0 +1,58 @@
+import api from "@flatfile/api";
+import { KnownSheet } from "../../../support/utils/blueprint/knownSheet";
+import { formatRecord, SimpleRecord } from "../../../support/utils/records";
+
+/**
+ * Records every sensitive value the Submit action decrypts in the Decryptions sheet,
+ * which field of which record and for which target, never the value itself.
+ */
+export class DecryptionAudit {
+  private pending: SimpleRecord[] = [];
+  private total = 0;
+
+  /**
+   * @param sheet - The Decryptions sheet
+   * @param jobId - The Submit job decrypting the values
+   */
+  constructor(
+    private readonly sheet: KnownSheet,
+    private readonly jobId: string,
+  ) {}
+
+  /**
+   * Number of values decrypted so far
+   */
+  get count(): number {
+    return this.total;
+  }
+
+  /**
+   * Notes a decrypted value, the row is added on the next flush
+   *
+   * @param target - The name of the target the value is decrypted for
+   * @param recordId - The record holding the value
+   * @param field - The key of the sensitive field
+   */
+  record(target: string, recordId: string, field: string) {
+    this.pending.push({
+      decrypted_at: new Date().toISOString(),
+      job_id: this.jobId,
+      target,
+      record_id: recordId,
+      field,
+    });
+    this.total++;
+  }
+
+  /**
+   * Adds the rows of the values decrypted since the last flush
+   */
+  async flush(): Promise<void> {
+    if (this.pending.length === 0) {
+      return;
+    }
+    const rows = this.pending;
+    this.pending = [];
+    await api.records.insert(this.sheet.id, rows.map(formatRecord));
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * A batch of payloads ready to be delivered
+ */
+export interface PayloadBatch<T> {
+  number: number;
+  payloads: T[];
+  bytes: number;
+}
+
+/**
+ * Groups payloads into batches bounded by serialized size and record count.
+ * A single payload larger than `maxBytes` is delivered in a batch of its own.
+ */
+export class PayloadBatcher<T> {
+  private payloads: T[] = [];
+  private bytes = 0;
+  private count = 0;
+
+  constructor(private readonly options: { maxBytes: number; maxRecords: number }) {}
+
+  /**
+   * Adds a payload to the current batch
+   *
+   * @returns the completed batch when the payload did not fit in it
+   */
+  add(payload: T): PayloadBatch<T> | undefined {
+    const size = Buffer.byteLength(JSON.stringify(payload));
+    const isFull =
+      this.payloads.length >= this.options.maxRecords || (this.payloads.length > 0 && this.bytes + size > this.options.maxBytes);
+    const completed = isFull ? this.flush() : undefined;
+    this.payloads.push(payload);
+    this.bytes += size;
+    return completed;
+  }
+
+  /**
+   * Completes the current batch
+   *
+   * @returns the batch, or nothing when it is empty
+   */
+  flush(): PayloadBatch<T> | undefined {
+    if (this.payloads.length === 0) {
+      return undefined;
+    }
+    const batch = { number: ++this.count, payloads: this.payloads, bytes: this.bytes };
+    this.payloads = [];
+    this.bytes = 0;
+    return batch;
+  }
+}
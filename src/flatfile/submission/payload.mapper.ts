@@ -0,0 +1,14 @@
+import { RecordWithMeta } from "../../../support/utils/records";
+
+/**
+ * Turns a sheet record into the payload expected by a submission target.
+ * Implement this to plug a new payload shape into the Submit action.
+ */
+export interface PayloadMapper {
+  map(record: RecordWithMeta): Record<string, unknown>;
+  /**
+   * Maps a record with its sensitive values sealed rather than decrypted, hashed by the ledger to recognize
+   * unchanged projects. Mappers that never decrypt don't need it, their payload is hashed as is.
+   */
+  seal?(record: RecordWithMeta): Record<string, unknown>;
+}
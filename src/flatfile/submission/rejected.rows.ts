@@ -0,0 +1,103 @@
+import api, { Flatfile } from "@flatfile/api";
+import { stringify } from "csv-stringify/sync";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { KnownSheet } from "../../../support/utils/blueprint/knownSheet";
+
+/**
+ * Metadata flag set on rows left out of a submission
+ */
+export const SUBMISSION_STATUS = "submission_status";
+
+/**
+ * Rejected rows exported for download
+ */
+export interface RejectedRows {
+  count: number;
+  fileId?: string;
+}
+
+/**
+ * Tags every record with errors as rejected and exports them, with their error messages, to a CSV file
+ * attached to the space. Records are read page by page and the CSV is written to a temporary file as it grows.
+ *
+ * @param sheet - The sheet being submitted
+ * @param context - The space and environment the file is uploaded to
+ * @returns the number of rejected rows and the uploaded file, if any row was rejected
+ */
+export async function exportRejectedRows(
+  sheet: KnownSheet,
+  context: { spaceId: string; environmentId: string },
+): Promise<RejectedRows> {
+  const keys = sheet.fields.map(field => field.key);
+  const file = path.join(os.tmpdir(), `rejected-${sheet.slug}-${Date.now()}.csv`);
+  fs.writeFileSync(file, stringify([["record_id", ...keys, "errors"]]));
+
+  let count = 0;
+  try {
+    await sheet.getAllRawRecords({ filter: "error", includeMessages: true }).each(async (records) => {
+      fs.appendFileSync(file, stringify(records.map(record => toRow(record, keys))));
+      await api.records.update(
+        sheet.id,
+        records.map(record => ({
+          id: record.id,
+          values: {},
+          metadata: { ...record.metadata, [SUBMISSION_STATUS]: "rejected" },
+        })),
+      );
+      count += records.length;
+    });
+
+    if (count === 0) {
+      return { count };
+    }
+    const upload = await api.files.upload(fs.createReadStream(file), { ...context, mode: "export" });
+    return { count, fileId: upload.data.id };
+  } finally {
+    fs.rmSync(file, { force: true });
+  }
+}
+
+/**
+ * Clears a stale rejection flag from records that are being submitted
+ *
+ * @param sheet - The sheet being submitted
+ * @param records - The valid records about to be submitted
+ */
+export async function clearRejections(sheet: KnownSheet, records: Flatfile.Record_[]): Promise<void> {
+  const flagged = records
+    .filter(record => record.metadata?.[SUBMISSION_STATUS])
+    .map(record => {
+      const { [SUBMISSION_STATUS]: _, ...metadata } = record.metadata;
+      return { id: record.id, values: {}, metadata };
+    });
+  if (flagged.length > 0) {
+    await api.records.update(sheet.id, flagged);
+  }
+}
+
+/**
+ * Flattens a record into a CSV row: its id, its values in field order and its error messages
+ *
+ * @param record - The rejected record
+ * @param keys - The field keys of the sheet
+ */
+function toRow(record: Flatfile.Record_, keys: string[]): string[] {
+  const errors = Object.entries(record.values).flatMap(([key, cell]) =>
+    (cell.messages ?? []).filter(message => message.type === "error").map(message => `${key}: ${message.message}`),
+  );
+  return [record.id, ...keys.map(key => stringOf(record.values[key]?.value)), errors.join("; ")];
+}
+
+/**
+ * Renders a cell value for the CSV
+ *
+ * @param value - The cell value
+ */
+function stringOf(value: Flatfile.CellValueUnion | undefined): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
@@ -0,0 +1,124 @@
+import api from "@flatfile/api";
+import { createHash } from "crypto";
+import { KnownSheet } from "../../../support/utils/blueprint/knownSheet";
+import { formatRecord, RecordWithMeta } from "../../../support/utils/records";
+import { PayloadMapper } from "./payload.mapper";
+
+/**
+ * Longest response body kept in the ledger
+ */
+const MAX_RESPONSE_EXCERPT = 500;
+
+/**
+ * One delivery recorded in the ledger
+ */
+export interface SubmissionAttempt {
+  jobId: string;
+  target: string;
+  batchNumber: number;
+  payloadHash: string;
+  recordHashes: string[];
+  status?: number;
+  attempts: number;
+  response?: string;
+  durationMs: number;
+}
+
+/**
+ * Records every delivery of the Submit action in the Submissions sheet
+ * and remembers which project payloads were accepted by the receiver.
+ */
+export class SubmissionLedger {
+  private constructor(
+    private readonly sheet: KnownSheet,
+    private readonly acceptedHashes: Set<string>,
+  ) {}
+
+  /**
+   * Loads the hashes of the payloads each target accepted in previous submissions
+   *
+   * @param sheet - The Submissions sheet
+   */
+  static async load(sheet: KnownSheet): Promise<SubmissionLedger> {
+    const accepted = new Set<string>();
+    await sheet.getAllRecords().each((rows) => {
+      rows
+        .filter(row => isAccepted(row["http_status"] as number))
+        .forEach(row =>
+          ((row.metadata as { recordHashes?: string[] })?.recordHashes ?? []).forEach(hash => accepted.add(`${row["target"]}:${hash}`)),
+        );
+    });
+    return new SubmissionLedger(sheet, accepted);
+  }
+
+  /**
+   * Hashes a payload, identical payloads always have the same hash
+   *
+   * @param payload - The payload or serialized body
+   */
+  static hash(payload: unknown): string {
+    const body = typeof payload === "string" ? payload : JSON.stringify(payload);
+    return createHash("sha256").update(body).digest("hex");
+  }
+
+  /**
+   * Hashes the payload a mapper makes of a record, with its sensitive values sealed,
+   * so that Preview and Submit recognize unchanged projects without decrypting anything
+   *
+   * @param mapper - The mapper of the target
+   * @param record - The record
+   */
+  static hashRecord(mapper: PayloadMapper, record: RecordWithMeta): string {
+    return this.hash(mapper.seal?.(record) ?? mapper.map(record));
+  }
+
+  /**
+   * Whether a payload with this hash was already accepted by a target
+   *
+   * @param target - The name of the target
+   * @param hash - The payload hash
+   */
+  isAccepted(target: string, hash: string): boolean {
+    return this.acceptedHashes.has(`${target}:${hash}`);
+  }
+
+  /**
+   * Adds a row for a delivery, remembering its payloads when it was accepted
+   *
+   * @param attempt - The delivery
+   */
+  async record(attempt: SubmissionAttempt): Promise<void> {
+    const [inserted] = (
+      await api.records.insert(this.sheet.id, [
+        formatRecord({
+          submitted_at: new Date().toISOString(),
+          job_id: attempt.jobId,
+          target: attempt.target,
+          batch_number: attempt.batchNumber,
+          record_count: attempt.recordHashes.length,
+          payload_hash: attempt.payloadHash,
+          http_status: attempt.status ?? null,
+          attempts: attempt.attempts,
+          response_excerpt: attempt.response?.substring(0, MAX_RESPONSE_EXCERPT) ?? null,
+          duration_ms: attempt.durationMs,
+        }),
+      ])
+    ).data.records;
+    // Metadata can't be inserted, so the hashes are written afterwards
+    await api.records.update(this.sheet.id, [
+      { id: inserted.id, values: {}, metadata: { recordHashes: attempt.recordHashes } },
+    ]);
+    if (isAccepted(attempt.status)) {
+      attempt.recordHashes.forEach(hash => this.acceptedHashes.add(`${attempt.target}:${hash}`));
+    }
+  }
+}
+
+/**
+ * Whether the receiver accepted a delivery
+ *
+ * @param status - The HTTP status of the response
+ */
+function isAccepted(status?: number): boolean {
+  return status >= 200 && status < 300;
+}
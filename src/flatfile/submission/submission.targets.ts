@@ -0,0 +1,129 @@
+import { Flatfile } from "@flatfile/api";
+import { safe } from "../../../support/requests";
+import { AuditRecordMapper } from "./audit.mapper";
+import { CoperniqProjectMapper } from "./coperniq.mapper";
+import { DecryptionAudit } from "./decryption.audit";
+import { PayloadMapper } from "./payload.mapper";
+
+/**
+ * Payload mappers a submission target can pick by name, only the Coperniq mapper decrypts sensitive values
+ */
+const MAPPERS: Record<string, (fields: Flatfile.Property[], audit?: (recordId: string, field: string) => void) => PayloadMapper> = {
+  coperniq: (fields, audit) => new CoperniqProjectMapper(fields, audit),
+  audit: () => new AuditRecordMapper(),
+};
+
+/**
+ * A submission target as configured in the space `metadata.submissionTargets`.
+ * Credentials are never stored in the space, they are read from the environment variables named here.
+ *
+ * @example
+ * {
+ *   name: "coperniq",
+ *   url: "https://api.coperniq.io/v1/projects/import",
+ *   mapper: "coperniq",
+ *   authHeader: "x-api-key",
+ *   authEnv: "COPERNIQ_API_KEY"
+ * }
+ */
+export interface SubmissionTargetConfig {
+  name: string;
+  url: string;
+  // name of a payload mapper, "coperniq" by default
+  mapper?: string;
+  // header carrying the credentials and the environment variable holding its value
+  authHeader?: string;
+  authEnv?: string;
+  // environment variable holding the payload signing secret, WEBHOOK_SECRET by default
+  secretEnv?: string;
+}
+
+/**
+ * A submission target ready to deliver to
+ */
+export interface SubmissionTarget {
+  name: string;
+  url: string;
+  mapper: PayloadMapper;
+  headers: Record<string, string>;
+  // signs the payloads, only resolved for targets that are delivered to
+  secret?: string;
+}
+
+/**
+ * How the targets are resolved
+ */
+export interface SubmissionTargetOptions {
+  // where the mappers report the sensitive values they decrypt, they are left masked without it
+  audit?: DecryptionAudit;
+  // whether the payloads are signed, a preview that sends nothing doesn't need the secret. True by default
+  signed?: boolean;
+}
+
+/**
+ * Resolves where the projects of a space are submitted to: every target listed in the space
+ * `metadata.submissionTargets`, or the `WEBHOOK_SITE_URL` of the deployment when the space lists none.
+ *
+ * @param spaceId - The space being submitted
+ * @param fields - The fields of the submitted sheet, handed to the payload mappers
+ * @param options - Where the decrypted sensitive values are reported and whether the payloads are signed
+ * @throws Error naming the space when no target is configured, or naming the target when it is misconfigured
+ */
+export async function getSubmissionTargets(
+  spaceId: string,
+  fields: Flatfile.Property[],
+  options: SubmissionTargetOptions = {},
+): Promise<SubmissionTarget[]> {
+  const space = await safe.spaces.get(spaceId);
+  const configs: SubmissionTargetConfig[] = space.metadata?.submissionTargets ?? defaultTargets();
+
+  if (configs.length === 0) {
+    throw new Error(
+      `No submission target is configured for space "${space.name ?? spaceId}" (${spaceId}), ` +
+        "add one to the space metadata.submissionTargets or set WEBHOOK_SITE_URL",
+    );
+  }
+
+  return configs.map(config => toTarget(config, fields, options));
+}
+
+/**
+ * The target of the deployment, used by spaces that don't configure their own
+ */
+function defaultTargets(): SubmissionTargetConfig[] {
+  const url = process.env.WEBHOOK_SITE_URL?.trim();
+  return url ? [{ name: "default", url }] : [];
+}
+
+/**
+ * Resolves the mapper and credentials of a target
+ *
+ * @param config - The target configuration
+ * @param fields - The fields of the submitted sheet
+ * @param options - Where the decrypted sensitive values are reported and whether the payloads are signed
+ */
+function toTarget(config: SubmissionTargetConfig, fields: Flatfile.Property[], options: SubmissionTargetOptions): SubmissionTarget {
+  const { audit, signed = true } = options;
+  const { name, url, mapper = "coperniq", authHeader, authEnv, secretEnv = "WEBHOOK_SECRET" } = config;
+
+  if (!url) {
+    throw new Error(`Submission target "${name}" has no url`);
+  }
+  if (!MAPPERS[mapper]) {
+    throw new Error(`Submission target "${name}" uses an unknown mapper "${mapper}"`);
+  }
+  const secret = signed ? process.env[secretEnv] : undefined;
+  if (signed && !secret) {
+    throw new Error(`${secretEnv} is not set in the environment, it signs the payloads of "${name}"`);
+  }
+  const headers: Record<string, string> = {};
+  if (authHeader) {
+    if (!authEnv || !process.env[authEnv]) {
+      throw new Error(`Submission target "${name}" has no credentials, set ${authEnv ?? "its authEnv"} in the environment`);
+    }
+    headers[authHeader] = process.env[authEnv];
+  }
+
+  const mapped = MAPPERS[mapper](fields, audit && ((recordId, field) => audit.record(name, recordId, field)));
+  return { name, url: url.trim(), mapper: mapped, headers, secret };
+}
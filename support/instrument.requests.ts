@@ -2,11 +2,12 @@
 
 import { Debugger } from "@flatfile/utils-debugger"
 import stripAnsi from "strip-ansi"
+import { Redaction } from "./utils/common/sensitive"
 
 
 /**
  * Instruments HTTP requests to log them to the console.
- * This is useful for debugging
+ * This is useful for debugging. Credential headers are masked.
  */
 export function instrumentRequests() {
   global.__instrumented = global.__instrumented === undefined ? false : global.__instrumented
@@ -39,7 +40,7 @@ export function instrumentRequests() {
               method: options.method,
               url: options.href || options.proto + "://" + options.host + options.path,
               startTime,
-              headers: response.headers,
+              headers: Redaction.headers(response.headers),
               statusCode: response.statusCode,
             })
           })
@@ -78,7 +79,7 @@ export function instrumentRequests() {
         method,
         url,
         startTime,
-        headers,
+        headers: Redaction.headers(headers),
         statusCode: response.status,
       }
 
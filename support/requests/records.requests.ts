@@ -1,12 +1,12 @@
 import { Flatfile } from "@flatfile/api";
 import { Collection } from "collect.js";
 import jsonlines from "jsonlines";
-import { Primitive, SimpleRecord, toSimpleRecord } from "../utils/records";
+import { Primitive, RecordWithMeta, SimpleRecord, toSimpleRecord } from "../utils/records";
 import { GetRequest } from "../utils/requests/get.request";
 import { PostRequest } from "../utils/requests/post.request";
 import { Item } from "./records/item";
 
-export class GetRecordsRequest extends GetRequest<SimpleRecord[]> {
+export class GetRecordsRequest extends GetRequest<RecordWithMeta[]> {
   path = "/v1/sheets/:sheetId/records";
 
   constructor(sheetId: string, opts?: Flatfile.GetRecordsRequest) {
@@ -16,6 +16,16 @@ export class GetRecordsRequest extends GetRequest<SimpleRecord[]> {
     return (await super.parseBody(body)).records.map(toSimpleRecord);
   }
 }
+export class GetRawRecordsRequest extends GetRequest<Flatfile.Record_[]> {
+  path = "/v1/sheets/:sheetId/records";
+
+  constructor(sheetId: string, opts?: Flatfile.GetRecordsRequest) {
+    super(sheetId, opts as any);
+  }
+  protected async parseBody(body?: Record<string, any>) {
+    return (await super.parseBody(body)).records;
+  }
+}
 export type StreamRecordsPatchQuery = ({ sheetId: string } | { workbookId: string }) & {
   stream?: boolean;
   truncate?: boolean;
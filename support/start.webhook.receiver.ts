@@ -0,0 +1,31 @@
+import { createServer, Server } from "node:http";
+import { IDEMPOTENCY_HEADER, SIGNATURE_HEADER, verifySignature } from "./utils/requests/webhook.signature";
+
+/**
+ * Starts a local receiver to test webhook deliveries against (point WEBHOOK_SITE_URL at it).
+ * Rejects deliveries whose signature doesn't match the shared secret and acknowledges
+ * repeated idempotency keys without processing them twice.
+ */
+export function startWebhookReceiver(port: number = 3030, secret: string = process.env.WEBHOOK_SECRET): Server {
+  const received = new Set<string>();
+  return createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      if (!verifySignature(body, req.headers[SIGNATURE_HEADER.toLowerCase()] as string, secret)) {
+        console.log("✗ Rejected delivery with an invalid signature");
+        res.writeHead(401).end("Invalid signature");
+        return;
+      }
+      const key = req.headers[IDEMPOTENCY_HEADER.toLowerCase()] as string;
+      if (received.has(key)) {
+        console.log(`✓ Ignored repeated delivery ${key}`);
+        res.writeHead(200).end("Already received");
+        return;
+      }
+      received.add(key);
+      console.log(`✓ Received delivery ${key} (${body.length} bytes)`);
+      res.writeHead(202).end("Accepted");
+    });
+  }).listen(port);
+}
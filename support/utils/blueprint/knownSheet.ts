@@ -1,5 +1,5 @@
 import { Flatfile } from "@flatfile/api";
-import { GetRecordsRequest } from "../../requests/records.requests";
+import { GetRawRecordsRequest, GetRecordCountsRequest, GetRecordsRequest } from "../../requests/records.requests";
 import { PaginatedCollection } from "../requests/paginated.collection";
 
 export class KnownSheet {
@@ -25,10 +25,25 @@ export class KnownSheet {
     return this.raw.config.fields;
   }
 
-  getAllRecords() {
-    return new PaginatedCollection((pageNumber, pageSize) => new GetRecordsRequest(this.id, { pageNumber, pageSize }), {
-      pageSize: 2000,
-    });
+  getAllRecords(options: Flatfile.GetRecordsRequest = {}) {
+    return new PaginatedCollection(
+      (pageNumber, pageSize) => new GetRecordsRequest(this.id, { ...options, pageNumber, pageSize }),
+      { pageSize: 2000 },
+    );
+  }
+
+  /**
+   * Records with their cell messages and metadata, as returned by the API
+   */
+  getAllRawRecords(options: Flatfile.GetRecordsRequest = {}) {
+    return new PaginatedCollection(
+      (pageNumber, pageSize) => new GetRawRecordsRequest(this.id, { ...options, pageNumber, pageSize }),
+      { pageSize: 2000 },
+    );
+  }
+
+  counts() {
+    return new GetRecordCountsRequest(this.id);
   }
 
   keys() {
@@ -1,4 +1,4 @@
-import { asNumber } from "./casting";
+import { asNumber, asQuantity, UnitError } from "./casting";
 
 describe("asNumber", () => {
   it("should handle direct number inputs", () => {
@@ -48,3 +48,43 @@ describe("asNumber", () => {
     expect(asNumber("invalid")).toBe(0);
   });
 });
+
+describe("asQuantity", () => {
+  it("should take a number without a unit to be in the unit", () => {
+    expect(asQuantity(7.2, "kW")).toBe(7.2);
+    expect(asQuantity("7.2", "kW")).toBe(7.2);
+    expect(asQuantity("35,000", "USD")).toBe(35000);
+  });
+
+  it("should convert power and energy units", () => {
+    expect(asQuantity("7.2 kW", "kW")).toBe(7.2);
+    expect(asQuantity("7200 W", "kW")).toBe(7.2);
+    expect(asQuantity("7.2kWdc", "kW")).toBe(7.2);
+    expect(asQuantity("1.5 MW", "kW")).toBe(1500);
+    expect(asQuantity("13500 Wh", "kWh")).toBe(13.5);
+    expect(asQuantity("13.5 kWh", "kWh")).toBe(13.5);
+  });
+
+  it("should convert dollars and cents", () => {
+    expect(asQuantity("$35,000", "USD")).toBe(35000);
+    expect(asQuantity("$35k", "USD")).toBe(35000);
+    expect(asQuantity("35000 USD", "USD")).toBe(35000);
+    expect(asQuantity("250 cents", "USD")).toBe(2.5);
+  });
+
+  it("should read degrees", () => {
+    expect(asQuantity("25°", "deg")).toBe(25);
+    expect(asQuantity("180 degrees", "deg")).toBe(180);
+  });
+
+  it("should return null for empty values", () => {
+    expect(asQuantity(null, "kW")).toBeNull();
+    expect(asQuantity("  ", "kW")).toBeNull();
+  });
+
+  it("should throw on incompatible units instead of returning 0", () => {
+    expect(() => asQuantity("13.5 kWh", "kW")).toThrow(UnitError);
+    expect(() => asQuantity("7.2 kW", "USD")).toThrow('"7.2 kW" can\'t be read as USD');
+    expect(() => asQuantity("about seven", "kW")).toThrow(UnitError);
+  });
+});
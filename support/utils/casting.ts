@@ -1,4 +1,5 @@
 import * as chrono from "chrono-node";
+import ExtendableError from "extendable-error";
 
 export function asDate(input: any): Date | null {
   const str_value = asString(input);
@@ -52,6 +53,67 @@ export function asNumber(input: any): number {
   return 0;
 }
 
+/**
+ * Units a number field can declare in its `metadata.unit`
+ */
+export type Unit = "kW" | "kWh" | "USD" | "deg";
+
+/**
+ * Spellings of every unit, with the factor converting them into the unit they belong to
+ */
+const UNIT_SPELLINGS: Record<Unit, Record<string, number>> = {
+  kW: { w: 0.001, watt: 0.001, watts: 0.001, kw: 1, kwp: 1, kwdc: 1, kwac: 1, kilowatt: 1, kilowatts: 1, mw: 1000, megawatt: 1000, megawatts: 1000 },
+  kWh: { wh: 0.001, kwh: 1, mwh: 1000 },
+  USD: { "$": 1, usd: 1, dollar: 1, dollars: 1, "$k": 1000, k: 1000, "$m": 1_000_000, m: 1_000_000, "¢": 0.01, c: 0.01, cent: 0.01, cents: 0.01 },
+  deg: { "°": 1, deg: 1, degree: 1, degrees: 1 },
+};
+
+/**
+ * A value whose unit can't be converted into the unit of the field
+ */
+export class UnitError extends ExtendableError {
+  constructor(
+    public readonly input: string,
+    public readonly unit: Unit,
+  ) {
+    super(`"${input}" can't be read as ${unit}`);
+  }
+}
+
+/**
+ * Reads a number written with a unit and converts it into the given unit, e.g. "7200 W" as kW is 7.2,
+ * "$35,000" as USD is 35000 and "25°" as deg is 25. A number without a unit is taken to be in the given unit.
+ *
+ * @param input - The value as written
+ * @param unit - The unit to convert into
+ * @returns the converted number, or null when the input is empty
+ * @throws UnitError when the input isn't a number or its unit can't be converted
+ */
+export function asQuantity(input: any, unit: Unit): number | null {
+  if (typeof input === "number") {
+    return isNaN(input) ? null : input;
+  }
+  const str_value = asString(input).trim();
+  if (!str_value) {
+    return null;
+  }
+
+  const match = str_value.match(/^([^\d\s.+-]*)\s*([+-]?(?:\d[\d,]*)?\.?\d+(?:e[+-]?\d+)?)\s*(.*)$/i);
+  if (!match) {
+    throw new UnitError(str_value, unit);
+  }
+  const [, prefix, digits, suffix] = match;
+  const value = Number(digits.replace(/,/g, ""));
+  // "$35k" reads as the "$k" spelling, "25 degrees" as "degrees"
+  const spelling = `${prefix}${suffix}`.toLowerCase().replace(/[\s.]/g, "");
+  const factor = spelling ? UNIT_SPELLINGS[unit][spelling] : 1;
+  if (isNaN(value) || factor === undefined) {
+    throw new UnitError(str_value, unit);
+  }
+  // Round to 12 decimal places to avoid floating point artifacts of the conversion
+  return Math.round(value * factor * 1e12) / 1e12;
+}
+
 export function asString(input: any): string {
   // Check if the input is null or undefined
   if (input === null || input === undefined) {
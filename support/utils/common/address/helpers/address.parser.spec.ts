@@ -0,0 +1,58 @@
+import { AddressParser } from "./address.parser";
+
+describe("AddressParser", () => {
+  it("should split an address with commas and abbreviate it", () => {
+    expect(AddressParser.parse("123 North Main Street, Apartment 4, Springfield, Illinois 62701")).toEqual({
+      street: "123 N Main St Apt 4",
+      city: "Springfield",
+      state: "IL",
+      zip: "62701",
+    });
+  });
+
+  it("should parse a formatted address back to itself", () => {
+    const formatted = "123 N Main St Apt 4, Springfield, IL 62701";
+    expect(AddressParser.format(AddressParser.parse(formatted))).toBe(formatted);
+  });
+
+  it("should split an address without commas after the street suffix", () => {
+    expect(AddressParser.parse("4500 oak ave ste 200 san luis obispo ca 934011234")).toEqual({
+      street: "4500 Oak Ave Ste 200",
+      city: "San Luis Obispo",
+      state: "CA",
+      zip: "93401-1234",
+    });
+    expect(AddressParser.parse("10 Park Pl New York NY 10007")?.city).toBe("New York");
+  });
+
+  it("should not parse addresses missing a state or a city", () => {
+    expect(AddressParser.parse("123 Main Street")).toBeNull();
+    expect(AddressParser.parse("123 Main Street Illinois 62701")).toBeNull();
+    expect(AddressParser.parse("")).toBeNull();
+  });
+
+  it("should check the ZIP format and that it belongs to the state", () => {
+    const address = { street: "1 Main St", city: "Boston", state: "MA", zip: "02134" };
+    expect(AddressParser.check(address)).toEqual([]);
+    expect(AddressParser.check({ ...address, zip: "0213" })[0].severity).toBe("error");
+    expect(AddressParser.check({ ...address, zip: "90210" })).toEqual([
+      { component: "zip", severity: "warning", message: "ZIP 90210 is not in MA" },
+    ]);
+    expect(AddressParser.parse("1 Main St, Boston, MA 2134")?.zip).toBe("02134");
+  });
+
+  it("should keep the MA 055 ZIP prefix out of VT", () => {
+    const address = { street: "1 Main St", city: "Andover", state: "MA", zip: "05501" };
+    expect(AddressParser.check(address)).toEqual([]);
+    expect(AddressParser.check({ ...address, city: "Burlington", state: "VT" })).toEqual([
+      { component: "zip", severity: "warning", message: "ZIP 05501 is not in VT" },
+    ]);
+    expect(AddressParser.check({ ...address, city: "Burlington", state: "VT", zip: "05401" })).toEqual([]);
+  });
+
+  it("should give differently written copies of an address the same key", () => {
+    expect(AddressParser.key("123 Main Street, Springfield, Illinois 62701-1234"))
+      .toBe(AddressParser.key("123 MAIN ST. SPRINGFIELD IL 62701"));
+    expect(AddressParser.key("somewhere")).toBe("");
+  });
+});
@@ -0,0 +1,239 @@
+import { US_STATES, UsState } from './us.states';
+
+export interface ParsedAddress {
+    street: string;
+    city: string;
+    // two-letter abbreviation
+    state: string;
+    // as written, checked by AddressParser.check
+    zip: string;
+}
+
+export interface AddressIssue {
+    component: keyof ParsedAddress;
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+/**
+ * USPS abbreviations of the common street suffixes
+ */
+const STREET_SUFFIXES: Record<string, string> = {
+    street: 'St', st: 'St', str: 'St',
+    avenue: 'Ave', ave: 'Ave', av: 'Ave',
+    road: 'Rd', rd: 'Rd',
+    drive: 'Dr', dr: 'Dr',
+    lane: 'Ln', ln: 'Ln',
+    boulevard: 'Blvd', blvd: 'Blvd',
+    court: 'Ct', ct: 'Ct',
+    circle: 'Cir', cir: 'Cir',
+    place: 'Pl', pl: 'Pl',
+    parkway: 'Pkwy', pkwy: 'Pkwy',
+    highway: 'Hwy', hwy: 'Hwy',
+    terrace: 'Ter', ter: 'Ter',
+    trail: 'Trl', trl: 'Trl',
+    square: 'Sq', sq: 'Sq',
+    crossing: 'Xing', xing: 'Xing',
+    point: 'Pt', pt: 'Pt',
+    ridge: 'Rdg', rdg: 'Rdg',
+    way: 'Way', loop: 'Loop', run: 'Run', path: 'Path', pike: 'Pike', row: 'Row', alley: 'Aly', aly: 'Aly',
+};
+
+/**
+ * USPS abbreviations of the directionals before or after the street name
+ */
+const DIRECTIONALS: Record<string, string> = {
+    north: 'N', n: 'N', south: 'S', s: 'S', east: 'E', e: 'E', west: 'W', w: 'W',
+    northeast: 'NE', ne: 'NE', northwest: 'NW', nw: 'NW', southeast: 'SE', se: 'SE', southwest: 'SW', sw: 'SW',
+};
+
+/**
+ * USPS abbreviations of the secondary unit designators
+ */
+const UNIT_DESIGNATORS: Record<string, string> = {
+    apartment: 'Apt', apt: 'Apt', suite: 'Ste', ste: 'Ste', unit: 'Unit', building: 'Bldg', bldg: 'Bldg', floor: 'Fl', fl: 'Fl', '#': '#',
+};
+
+/**
+ * States by lowercase name and abbreviation
+ */
+const STATES = new Map<string, UsState>(
+    US_STATES.flatMap((state) => [[state.name.toLowerCase(), state], [state.abbreviation.toLowerCase(), state]]),
+);
+
+/**
+ * Longest state name in words, "District of Columbia"
+ */
+const MAX_STATE_WORDS = 3;
+
+/**
+ * Splits free-text US addresses, e.g. "123 North Main Street Apt 4, Springfield, Illinois 62701",
+ * into street, city, state and ZIP, with street suffixes, directionals, unit designators and states abbreviated the USPS way.
+ * Parsing is offline: the address is read right to left, ZIP then state then city, the rest is the street.
+ */
+export class AddressParser {
+    /**
+     * Splits an address into its components
+     * @param value The free-text address
+     * @returns the normalized components, or null when no street, city and state can be told apart
+     * @example
+     * AddressParser.parse("123 north main street apt 4 springfield il 62701")
+     * // { street: "123 N Main St Apt 4", city: "Springfield", state: "IL", zip: "62701" }
+     */
+    public static parse(value: unknown): ParsedAddress | null {
+        if (typeof value !== 'string' || !value.trim()) {
+            return null;
+        }
+
+        // Keep commas as words of their own, they separate the street from the city
+        const words = value.replace(/,/g, ' , ').replace(/\./g, ' ').split(/\s+/).filter(Boolean);
+        const zip = /^\d[\d-]*$/.test(words[words.length - 1]) ? words.pop() : '';
+        while (words[words.length - 1] === ',') words.pop();
+
+        const state = this.takeState(words);
+        while (words[words.length - 1] === ',') words.pop();
+        if (!state || words.length === 0) {
+            return null;
+        }
+
+        const parts = this.splitStreetAndCity(words);
+        if (!parts) {
+            return null;
+        }
+        return {
+            street: this.normalizeStreet(parts.street),
+            city: parts.city.map((word) => this.titleCase(word)).join(' '),
+            state: state.abbreviation,
+            zip: this.normalizeZip(zip, state),
+        };
+    }
+
+    /**
+     * Checks the ZIP of a parsed address: it must be 5 digits or ZIP+4, and should belong to the state
+     * @param address The parsed address
+     * @returns the issues found, none when the ZIP is fine
+     * @example
+     * AddressParser.check({ street: "1 Main St", city: "Springfield", state: "IL", zip: "90210" })
+     * // [{ component: "zip", severity: "warning", message: "ZIP 90210 is not in IL" }]
+     */
+    public static check(address: ParsedAddress): AddressIssue[] {
+        if (!address.zip) {
+            return [{ component: 'zip', severity: 'error', message: 'ZIP is missing' }];
+        }
+        if (!/^\d{5}(-\d{4})?$/.test(address.zip)) {
+            return [{ component: 'zip', severity: 'error', message: `ZIP ${address.zip} must be 5 digits or ZIP+4 (12345-6789)` }];
+        }
+        const state = STATES.get(address.state.toLowerCase());
+        if (state && !this.inState(address.zip, state)) {
+            return [{ component: 'zip', severity: 'warning', message: `ZIP ${address.zip} is not in ${state.abbreviation}` }];
+        }
+        return [];
+    }
+
+    /**
+     * Writes a parsed address back on one line
+     * @param address The parsed address
+     * @example
+     * AddressParser.format(address) // "123 N Main St Apt 4, Springfield, IL 62701"
+     */
+    public static format(address: ParsedAddress): string {
+        return `${address.street}, ${address.city}, ${address.state} ${address.zip}`.trim();
+    }
+
+    /**
+     * Normalizes an address for comparison, so that differently written copies of one address compare equal
+     * @param value The free-text address
+     * @returns the lowercase formatted address, or an empty string when it can't be parsed
+     * @example
+     * AddressParser.key("123 Main Street, Springfield, Illinois 62701") === AddressParser.key("123 main st springfield il 62701") // true
+     */
+    public static key(value: unknown): string {
+        const address = this.parse(value);
+        return address ? this.format({ ...address, zip: address.zip.substring(0, 5) }).toLowerCase() : '';
+    }
+
+    /**
+     * Removes the state from the end of the words, trying the longest names first
+     * @returns the state, or undefined when the words don't end with one
+     */
+    private static takeState(words: string[]): UsState | undefined {
+        for (let length = Math.min(MAX_STATE_WORDS, words.length); length > 0; length--) {
+            const state = STATES.get(words.slice(-length).join(' ').toLowerCase());
+            if (state) {
+                words.splice(-length);
+                return state;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Splits the words before the state into street and city, at the last comma when there is one,
+     * otherwise after the last street suffix and the unit following it
+     */
+    private static splitStreetAndCity(words: string[]): { street: string[], city: string[] } | null {
+        const comma = words.lastIndexOf(',');
+        if (comma !== -1) {
+            const street = words.slice(0, comma).filter((word) => word !== ',');
+            const city = words.slice(comma + 1);
+            return street.length > 0 && city.length > 0 ? { street, city } : null;
+        }
+
+        let end = -1;
+        words.forEach((word, index) => {
+            if (index > 0 && STREET_SUFFIXES[word.toLowerCase()]) end = index + 1;
+        });
+        if (end === -1) {
+            return null;
+        }
+        if (DIRECTIONALS[words[end]?.toLowerCase()] && end < words.length - 1) end++;
+        if (UNIT_DESIGNATORS[words[end]?.toLowerCase()] && end < words.length - 2) end += 2;
+        else if (/^#\w+$/.test(words[end] ?? '') && end < words.length - 1) end++;
+
+        const city = words.slice(end);
+        return city.length > 0 ? { street: words.slice(0, end), city } : null;
+    }
+
+    /**
+     * Abbreviates the suffix, directionals and unit designator of a street, title-casing the other words
+     */
+    private static normalizeStreet(words: string[]): string {
+        const unit = words.findIndex((word, index) => index > 0 && (UNIT_DESIGNATORS[word.toLowerCase()] || word.startsWith('#')));
+        const name = unit === -1 ? words : words.slice(0, unit);
+        let suffix = -1;
+        name.forEach((word, index) => {
+            if (index > 0 && STREET_SUFFIXES[word.toLowerCase()]) suffix = index;
+        });
+
+        return words.map((word, index) => {
+            const lower = word.toLowerCase();
+            if (index === suffix) return STREET_SUFFIXES[lower];
+            if (index === unit) return UNIT_DESIGNATORS[lower] ?? word;
+            const isDirectional = (index === 1 && name.length > 2) || (suffix !== -1 && index === suffix + 1 && index < name.length);
+            if (isDirectional && DIRECTIONALS[lower]) return DIRECTIONALS[lower];
+            return this.titleCase(word);
+        }).join(' ');
+    }
+
+    /**
+     * Writes a 9-digit ZIP as ZIP+4, and restores the leading zero spreadsheets drop from 4-digit ZIPs of the northeast
+     */
+    private static normalizeZip(zip: string, state: UsState): string {
+        if (/^\d{9}$/.test(zip)) {
+            return `${zip.substring(0, 5)}-${zip.substring(5)}`;
+        }
+        if (/^\d{4}(-\d{4})?$/.test(zip) && this.inState(`0${zip}`, state)) {
+            return `0${zip}`;
+        }
+        return zip;
+    }
+
+    private static inState(zip: string, state: UsState): boolean {
+        const prefix = Number(zip.substring(0, 3));
+        return state.zipPrefixes.some(([from, to]) => prefix >= from && prefix <= to);
+    }
+
+    private static titleCase(word: string): string {
+        return /\d/.test(word) ? word.toUpperCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+    }
+}
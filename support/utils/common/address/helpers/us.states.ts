@@ -0,0 +1,64 @@
+export interface UsState {
+    abbreviation: string;
+    name: string;
+    // ranges of the first three digits of the ZIP codes of the state, inclusive
+    zipPrefixes: Array<[number, number]>;
+}
+
+/**
+ * The states, DC and Puerto Rico with the ZIP prefixes assigned to them by USPS
+ */
+export const US_STATES: UsState[] = [
+    { abbreviation: 'AL', name: 'Alabama', zipPrefixes: [[350, 369]] },
+    { abbreviation: 'AK', name: 'Alaska', zipPrefixes: [[995, 999]] },
+    { abbreviation: 'AZ', name: 'Arizona', zipPrefixes: [[850, 865]] },
+    { abbreviation: 'AR', name: 'Arkansas', zipPrefixes: [[716, 729]] },
+    { abbreviation: 'CA', name: 'California', zipPrefixes: [[900, 961]] },
+    { abbreviation: 'CO', name: 'Colorado', zipPrefixes: [[800, 816]] },
+    { abbreviation: 'CT', name: 'Connecticut', zipPrefixes: [[60, 69]] },
+    { abbreviation: 'DE', name: 'Delaware', zipPrefixes: [[197, 199]] },
+    { abbreviation: 'DC', name: 'District of Columbia', zipPrefixes: [[200, 200], [202, 205], [569, 569]] },
+    { abbreviation: 'FL', name: 'Florida', zipPrefixes: [[320, 349]] },
+    { abbreviation: 'GA', name: 'Georgia', zipPrefixes: [[300, 319], [398, 399]] },
+    { abbreviation: 'HI', name: 'Hawaii', zipPrefixes: [[967, 968]] },
+    { abbreviation: 'ID', name: 'Idaho', zipPrefixes: [[832, 838]] },
+    { abbreviation: 'IL', name: 'Illinois', zipPrefixes: [[600, 629]] },
+    { abbreviation: 'IN', name: 'Indiana', zipPrefixes: [[460, 479]] },
+    { abbreviation: 'IA', name: 'Iowa', zipPrefixes: [[500, 528]] },
+    { abbreviation: 'KS', name: 'Kansas', zipPrefixes: [[660, 679]] },
+    { abbreviation: 'KY', name: 'Kentucky', zipPrefixes: [[400, 427]] },
+    { abbreviation: 'LA', name: 'Louisiana', zipPrefixes: [[700, 714]] },
+    { abbreviation: 'ME', name: 'Maine', zipPrefixes: [[39, 49]] },
+    { abbreviation: 'MD', name: 'Maryland', zipPrefixes: [[206, 219]] },
+    { abbreviation: 'MA', name: 'Massachusetts', zipPrefixes: [[10, 27], [55, 55]] },
+    { abbreviation: 'MI', name: 'Michigan', zipPrefixes: [[480, 499]] },
+    { abbreviation: 'MN', name: 'Minnesota', zipPrefixes: [[550, 567]] },
+    { abbreviation: 'MS', name: 'Mississippi', zipPrefixes: [[386, 397]] },
+    { abbreviation: 'MO', name: 'Missouri', zipPrefixes: [[630, 658]] },
+    { abbreviation: 'MT', name: 'Montana', zipPrefixes: [[590, 599]] },
+    { abbreviation: 'NE', name: 'Nebraska', zipPrefixes: [[680, 693]] },
+    { abbreviation: 'NV', name: 'Nevada', zipPrefixes: [[889, 898]] },
+    { abbreviation: 'NH', name: 'New Hampshire', zipPrefixes: [[30, 38]] },
+    { abbreviation: 'NJ', name: 'New Jersey', zipPrefixes: [[70, 89]] },
+    { abbreviation: 'NM', name: 'New Mexico', zipPrefixes: [[870, 884]] },
+    { abbreviation: 'NY', name: 'New York', zipPrefixes: [[5, 5], [100, 149]] },
+    { abbreviation: 'NC', name: 'North Carolina', zipPrefixes: [[270, 289]] },
+    { abbreviation: 'ND', name: 'North Dakota', zipPrefixes: [[580, 588]] },
+    { abbreviation: 'OH', name: 'Ohio', zipPrefixes: [[430, 459]] },
+    { abbreviation: 'OK', name: 'Oklahoma', zipPrefixes: [[730, 749]] },
+    { abbreviation: 'OR', name: 'Oregon', zipPrefixes: [[970, 979]] },
+    { abbreviation: 'PA', name: 'Pennsylvania', zipPrefixes: [[150, 196]] },
+    { abbreviation: 'PR', name: 'Puerto Rico', zipPrefixes: [[6, 9]] },
+    { abbreviation: 'RI', name: 'Rhode Island', zipPrefixes: [[28, 29]] },
+    { abbreviation: 'SC', name: 'South Carolina', zipPrefixes: [[290, 299]] },
+    { abbreviation: 'SD', name: 'South Dakota', zipPrefixes: [[570, 577]] },
+    { abbreviation: 'TN', name: 'Tennessee', zipPrefixes: [[370, 385]] },
+    { abbreviation: 'TX', name: 'Texas', zipPrefixes: [[750, 799], [885, 885]] },
+    { abbreviation: 'UT', name: 'Utah', zipPrefixes: [[840, 847]] },
+    { abbreviation: 'VT', name: 'Vermont', zipPrefixes: [[50, 54], [56, 59]] },
+    { abbreviation: 'VA', name: 'Virginia', zipPrefixes: [[201, 201], [220, 246]] },
+    { abbreviation: 'WA', name: 'Washington', zipPrefixes: [[980, 994]] },
+    { abbreviation: 'WV', name: 'West Virginia', zipPrefixes: [[247, 268]] },
+    { abbreviation: 'WI', name: 'Wisconsin', zipPrefixes: [[530, 549]] },
+    { abbreviation: 'WY', name: 'Wyoming', zipPrefixes: [[820, 831]] },
+];
@@ -0,0 +1,5 @@
+import { AddressParser, ParsedAddress, AddressIssue } from "./helpers/address.parser";
+import { US_STATES, UsState } from "./helpers/us.states";
+
+export { AddressParser, US_STATES };
+export type { ParsedAddress, AddressIssue, UsState };
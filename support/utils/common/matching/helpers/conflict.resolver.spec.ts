@@ -0,0 +1,37 @@
+import { ConflictPolicy, ConflictResolver } from "./conflict.resolver";
+
+describe("ConflictResolver", () => {
+  const observeAll = (resolver: ConflictResolver) => {
+    resolver.observe("jane", { phone: "111" }, { id: "r1", date: new Date("2024-01-01") });
+    resolver.observe("jane", { phone: "222" }, { id: "r2", date: new Date("2024-03-01") });
+    resolver.observe("jane", { phone: "222" }, { id: "r3", date: new Date("2024-02-01") });
+    resolver.observe("jane", { phone: "333" }, { id: "r4", date: new Date("2024-06-01") });
+    return resolver;
+  };
+
+  it("should keep the first seen value by default", () => {
+    const { values, conflicts } = observeAll(new ConflictResolver(["phone"])).resolve("jane");
+    expect(values.phone).toBe("111");
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].values.find((v) => v.value === "222").recordIds).toEqual(["r2", "r3"]);
+  });
+
+  it("should keep the most frequent value", () => {
+    const { values } = observeAll(new ConflictResolver(["phone"], ConflictPolicy.MOST_FREQUENT)).resolve("jane");
+    expect(values.phone).toBe("222");
+  });
+
+  it("should keep the most recent value", () => {
+    const { values } = observeAll(new ConflictResolver(["phone"], ConflictPolicy.MOST_RECENT)).resolve("jane");
+    expect(values.phone).toBe("333");
+  });
+
+  it("should not report values that normalize to the same key", () => {
+    const resolver = new ConflictResolver(["name"], ConflictPolicy.FIRST_SEEN, { name: (v) => String(v).toLowerCase() });
+    resolver.observe("jane", { name: "Jane Doe" }, { id: "r1" });
+    resolver.observe("jane", { name: "JANE DOE" }, { id: "r2" });
+    const { values, conflicts } = resolver.resolve("jane");
+    expect(values.name).toBe("Jane Doe");
+    expect(conflicts).toHaveLength(0);
+  });
+});
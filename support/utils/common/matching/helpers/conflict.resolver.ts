@@ -0,0 +1,118 @@
+export enum ConflictPolicy {
+    MOST_FREQUENT = 'mostFrequent',
+    MOST_RECENT = 'mostRecent',
+    FIRST_SEEN = 'firstSeen'
+}
+
+export interface ConflictingValue {
+    value: unknown;
+    count: number;
+    recordIds: string[];
+}
+
+export interface FieldConflict {
+    field: string;
+    chosen: unknown;
+    values: ConflictingValue[];
+}
+
+export interface ConflictResolution {
+    values: Record<string, unknown>;
+    conflicts: FieldConflict[];
+}
+
+interface Observation extends ConflictingValue {
+    firstSeen: number;
+    latest: number;
+}
+
+/**
+ * Collects the values several records hold for the same fields (e.g. every project of one client)
+ * and picks one value per field by policy, reporting the fields on which the records disagree.
+ */
+export class ConflictResolver {
+    private readonly groups = new Map<string, Map<string, Map<string, Observation>>>();
+    private seen = 0;
+
+    /**
+     * @param fields The fields to collect and resolve
+     * @param policy How to pick a value when the records disagree
+     * @param normalize Optional per-field normalizers, values normalizing to the same key are not a conflict
+     */
+    constructor(
+        private readonly fields: string[],
+        private readonly policy: ConflictPolicy = ConflictPolicy.FIRST_SEEN,
+        private readonly normalize: Record<string, (value: unknown) => string> = {}
+    ) {}
+
+    /**
+     * Records the values of one record for a group
+     * @param group The key of the group the record belongs to
+     * @param record The record holding the field values
+     * @param options The record id and the date used by the most recent policy
+     * @example
+     * resolver.observe("jane@example.com", project, { id: project.id, date: asDate(project.created_date) });
+     */
+    public observe(group: string, record: Record<string, unknown>, options: { id: string; date?: Date | null }) {
+        const order = this.seen++;
+        const time = options.date?.getTime() ?? Number.NEGATIVE_INFINITY;
+        if (!this.groups.has(group)) this.groups.set(group, new Map());
+        const fields = this.groups.get(group);
+        for (const field of this.fields) {
+            const value = record[field];
+            const key = this.keyOf(field, value);
+            if (!key) continue;
+            if (!fields.has(field)) fields.set(field, new Map());
+            const observations = fields.get(field);
+            const observation = observations.get(key) ?? { value, count: 0, recordIds: [], firstSeen: order, latest: time };
+            observation.count++;
+            observation.recordIds.push(options.id);
+            if (time > observation.latest) {
+                observation.latest = time;
+                // keep the spelling of the most recent record when recency decides
+                if (this.policy === ConflictPolicy.MOST_RECENT) observation.value = value;
+            }
+            observations.set(key, observation);
+        }
+    }
+
+    /**
+     * Picks a value for every field of a group and lists the fields the records disagree on
+     * @param group The key of the group to resolve
+     * @returns The chosen values and the conflicts, if any
+     */
+    public resolve(group: string): ConflictResolution {
+        const values: Record<string, unknown> = {};
+        const conflicts: FieldConflict[] = [];
+        this.groups.get(group)?.forEach((observations, field) => {
+            const candidates = Array.from(observations.values());
+            const chosen = candidates.reduce((best, candidate) => (this.isPreferred(candidate, best) ? candidate : best));
+            values[field] = chosen.value;
+            if (candidates.length > 1) {
+                conflicts.push({
+                    field,
+                    chosen: chosen.value,
+                    values: candidates.map(({ value, count, recordIds }) => ({ value, count, recordIds })),
+                });
+            }
+        });
+        return { values, conflicts };
+    }
+
+    private isPreferred(candidate: Observation, best: Observation): boolean {
+        switch (this.policy) {
+            case ConflictPolicy.MOST_FREQUENT:
+                return candidate.count > best.count || (candidate.count === best.count && candidate.firstSeen < best.firstSeen);
+            case ConflictPolicy.MOST_RECENT:
+                return candidate.latest > best.latest || (candidate.latest === best.latest && candidate.firstSeen < best.firstSeen);
+            case ConflictPolicy.FIRST_SEEN:
+            default:
+                return candidate.firstSeen < best.firstSeen;
+        }
+    }
+
+    private keyOf(field: string, value: unknown): string {
+        if (value === null || value === undefined) return '';
+        return this.normalize[field] ? this.normalize[field](value) : String(value).trim();
+    }
+}
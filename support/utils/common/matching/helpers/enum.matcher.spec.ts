@@ -0,0 +1,37 @@
+import { EnumMatcher } from "./enum.matcher";
+
+describe("EnumMatcher", () => {
+  const ownership = new EnumMatcher(
+    [{ value: "Cash" }, { value: "Loan" }, { value: "Lease" }, { value: "PPA" }],
+    { synonyms: { Cash: ["paid in full"], PPA: ["power purchase agreement"] } },
+  );
+  const trades = new EnumMatcher(
+    [{ value: "Solar" }, { value: "Storage" }, { value: "Electrical" }],
+    { synonyms: { Solar: ["pv"], Storage: ["battery"] } },
+  );
+
+  it("should match values, labels and synonyms regardless of case and punctuation", () => {
+    expect(ownership.match("cash")).toEqual({ value: "Cash", via: "exact" });
+    expect(ownership.match(" Paid-in-Full ")).toEqual({ value: "Cash", via: "exact" });
+    expect(ownership.match("Power Purchase Agreement")).toEqual({ value: "PPA", via: "exact" });
+    expect(ownership.match("")).toBeNull();
+  });
+
+  it("should match the only option contained in the input", () => {
+    expect(ownership.match("cash purchase")).toEqual({ value: "Cash", via: "contains" });
+    expect(ownership.match("PPA agreement")).toEqual({ value: "PPA", via: "contains" });
+    expect(ownership.match("loan or lease")).toBeNull();
+  });
+
+  it("should match close spellings unless fuzzy matching is off", () => {
+    expect(ownership.match("Leasse")).toEqual({ value: "Lease", via: "fuzzy" });
+    expect(ownership.match("Mortgage")).toBeNull();
+    expect(new EnumMatcher([{ value: "Lease" }], { fuzzy: false }).match("Leasse")).toBeNull();
+  });
+
+  it("should split enum-list inputs and report unmatched items", () => {
+    expect(trades.matchList("solar + battery")).toEqual({ values: ["Solar", "Storage"], unmatched: [] });
+    expect(trades.matchList(["PV", "Solar; Roofing"])).toEqual({ values: ["Solar"], unmatched: ["Roofing"] });
+    expect(trades.matchList(null)).toEqual({ values: [], unmatched: [] });
+  });
+});
@@ -0,0 +1,142 @@
+import { Similarity } from './similarity';
+
+export interface EnumOption {
+    value: string;
+    label?: string;
+}
+
+export interface EnumMatchOptions {
+    /** Other spellings of each option, by option value, e.g. `{ Cash: ["paid in full"] }` */
+    synonyms?: Record<string, string[]>;
+    /** Lowest Jaro-Winkler score auto-mapping a misspelled input to an option, `false` turns fuzzy matching off */
+    fuzzy?: number | false;
+}
+
+export interface EnumMatch {
+    /** The option value matched */
+    value: string;
+    /** How the input was matched: its value, label or a synonym, a phrase contained in it, or a close spelling */
+    via: 'exact' | 'contains' | 'fuzzy';
+}
+
+export interface EnumListMatch {
+    /** The option values matched, without duplicates */
+    values: string[];
+    /** The items of the input that didn't match any option */
+    unmatched: string[];
+}
+
+const DEFAULT_FUZZY = 0.9;
+
+/**
+ * Delimiters between the items of an enum-list typed as text, e.g. "Solar, Storage" or "solar + battery"
+ */
+const LIST_DELIMITERS = /\s*(?:[,;|/+&\n]|\band\b)\s*/i;
+
+/**
+ * Maps free-text inputs onto the options of an enum field.
+ * An input matches, in order: an option value, label or synonym, then the only option whose value, label or synonym
+ * appears as a phrase in it ("PPA agreement" is "PPA"), then the only option spelled closest to it ("Cancelled" is "Canceled").
+ */
+export class EnumMatcher {
+    private readonly options: EnumMatchOptions;
+    /** Normalized value, label and synonyms of the options, by option value */
+    private readonly keys = new Map<string, string>();
+
+    constructor(private readonly enumOptions: EnumOption[], options?: EnumMatchOptions) {
+        this.options = { fuzzy: DEFAULT_FUZZY, ...options };
+        enumOptions.forEach((option) => {
+            [option.value, option.label, ...(this.options.synonyms?.[option.value] ?? [])]
+                .map((spelling) => this.normalize(spelling))
+                .filter(Boolean)
+                .forEach((key) => this.keys.set(key, option.value));
+        });
+    }
+
+    /**
+     * Matches an input onto an option
+     * @param input The raw value
+     * @returns The option matched and how, or null when the input is empty or matches no single option
+     * @example
+     * new EnumMatcher([{ value: "Cash" }, { value: "PPA" }]).match("PPA agreement") // { value: "PPA", via: "contains" }
+     */
+    public match(input: unknown): EnumMatch | null {
+        const normalized = this.normalize(input);
+        if (!normalized) return null;
+
+        const exact = this.keys.get(normalized);
+        if (exact) return { value: exact, via: 'exact' };
+
+        const contained = this.only(Array.from(this.keys)
+            .filter(([key]) => ` ${normalized} `.includes(` ${key} `))
+            .map(([, value]) => value));
+        if (contained) return { value: contained, via: 'contains' };
+
+        if (this.options.fuzzy !== false) {
+            const scores = Array.from(this.keys, ([key, value]) => ({ value, score: Similarity.jaroWinkler(normalized, key) }));
+            const best = Math.max(...scores.map(({ score }) => score));
+            const fuzzy = best >= this.options.fuzzy ? this.only(scores.filter(({ score }) => score === best).map(({ value }) => value)) : null;
+            if (fuzzy) return { value: fuzzy, via: 'fuzzy' };
+        }
+        return null;
+    }
+
+    /**
+     * Matches the items of an enum-list input onto options. Text inputs are split on delimiters,
+     * unless the whole text is an option value, label or synonym itself.
+     * @param input The raw value, a text or an array of texts
+     * @returns The option values matched and the items matching no option
+     * @example
+     * matcher.matchList("solar + battery") // { values: ["Solar", "Storage"], unmatched: [] }
+     */
+    public matchList(input: unknown): EnumListMatch {
+        const items = (Array.isArray(input) ? input : [input])
+            .filter((item) => item !== null && item !== undefined && String(item).trim() !== '')
+            .flatMap((item) => this.keys.has(this.normalize(item)) ? [String(item).trim()] : EnumMatcher.split(item));
+
+        const values: string[] = [];
+        const unmatched: string[] = [];
+        items.forEach((item) => {
+            const match = this.match(item);
+            if (!match) {
+                unmatched.push(item);
+            } else if (!values.includes(match.value)) {
+                values.push(match.value);
+            }
+        });
+        return { values, unmatched };
+    }
+
+    /**
+     * Returns the option values, e.g. to list them in an error message
+     */
+    public values(): string[] {
+        return this.enumOptions.map((option) => option.value);
+    }
+
+    /**
+     * Splits a text enum-list into its items
+     * @param input The raw value
+     * @returns The trimmed, non-empty items
+     * @example
+     * EnumMatcher.split("Solar, Storage and Electrical") // ["Solar", "Storage", "Electrical"]
+     */
+    public static split(input: unknown): string[] {
+        return String(input ?? '').split(LIST_DELIMITERS).map((item) => item.trim()).filter(Boolean);
+    }
+
+    /**
+     * Normalizes a spelling for comparison: lowercase alphanumeric tokens separated by single spaces
+     */
+    private normalize(value: unknown): string {
+        return Similarity.tokenize(typeof value === 'number' ? String(value) : value).join(' ');
+    }
+
+    /**
+     * Returns the single distinct value of a list, or null when it's empty or holds different values
+     */
+    private only(values: string[]): string | null {
+        const distinct = new Set(values);
+        return distinct.size === 1 ? values[0] : null;
+    }
+}
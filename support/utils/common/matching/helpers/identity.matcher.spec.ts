@@ -0,0 +1,77 @@
+import { IdentityMatcher } from "./identity.matcher";
+import { Similarity } from "./similarity";
+
+describe("IdentityMatcher", () => {
+  const matcher = () =>
+    new IdentityMatcher<Record<string, string>>([
+      { key: "email", weight: 0.4, compare: "exact", decisive: true, positiveOnly: true, normalize: (v) => Similarity.normalizeEmail(v) },
+      { key: "phone", weight: 0.3, compare: "exact", anchor: true, positiveOnly: true, normalize: (v) => Similarity.normalizePhone(v) },
+      { key: "name", weight: 0.2, compare: "fuzzy", normalize: (v) => Similarity.normalizeName(v), block: (v) => [Similarity.lastName(v)] },
+      { key: "address", weight: 0.1, compare: "fuzzy", normalize: (v) => Similarity.normalizeAddress(v) },
+    ]);
+
+  it("should merge emails differing only in case and whitespace", () => {
+    const m = matcher();
+    const first = m.resolve({ email: "Jane@Example.com", name: "Jane Doe" });
+    const second = m.resolve({ email: "  jane@example.com ", name: "Someone Else" });
+    expect(second.isNew).toBe(false);
+    expect(second.identity).toBe(first.identity);
+  });
+
+  it("should merge the same person under two emails sharing a phone", () => {
+    const m = matcher();
+    m.resolve({ email: "jane@example.com", phone: "(415) 555-0123", name: "Jane Doe", address: "1 Main Street" });
+    const match = m.resolve({ email: "jdoe@work.com", phone: "+1 415 555 0123", name: "Doe, Jane", address: "1 Main St" });
+    expect(match.isNew).toBe(false);
+    expect(m.all()).toHaveLength(1);
+  });
+
+  it("should flag borderline pairs for review instead of merging", () => {
+    const m = matcher();
+    m.resolve({ email: "jane@example.com", name: "Jane Doe", address: "1 Main Street" });
+    const match = m.resolve({ email: "other@example.com", name: "Jane Doe", address: "99 Oak Avenue" });
+    expect(match.isNew).toBe(true);
+    expect(m.reviews).toHaveLength(1);
+    expect(m.reviews[0].score).toBeGreaterThanOrEqual(m.options.reviewThreshold);
+  });
+
+  it("should keep unrelated people apart", () => {
+    const m = matcher();
+    m.resolve({ email: "jane@example.com", name: "Jane Doe" });
+    m.resolve({ email: "bob@example.com", name: "Bob Smith" });
+    expect(m.all()).toHaveLength(2);
+    expect(m.reviews).toHaveLength(0);
+  });
+
+  it("should merge a record whose secondary emails hold the email of an identity", () => {
+    const m = new IdentityMatcher<Record<string, unknown>>([
+      { key: "email", weight: 0.4, compare: "exact", decisive: true, positiveOnly: true, also: ["other_emails"], normalize: (v) => Similarity.normalizeEmail(v) },
+      { key: "name", weight: 0.2, compare: "fuzzy", normalize: (v) => Similarity.normalizeName(v) },
+    ]);
+    const first = m.resolve({ email: "jane@example.com", name: "Jane Doe" });
+    const second = m.resolve({ email: "john@example.com", other_emails: ["Jane@Example.com"], name: "John Doe" });
+    expect(second.identity).toBe(first.identity);
+    expect(m.resolve({ email: "john@example.com", name: "John Doe" }).identity).toBe(first.identity);
+  });
+
+  it("should not merge different emails and phones on a similar name and address", () => {
+    const m = matcher();
+    m.resolve({ email: "john@example.com", phone: "(415) 555-0123", name: "John Smith", address: "120 Oak St" });
+    const match = m.resolve({ email: "jane@example.com", phone: "(415) 555-0188", name: "Jane Smith", address: "128 Oak St" });
+    expect(match.isNew).toBe(true);
+    expect(m.all()).toHaveLength(2);
+    expect(m.reviews).toHaveLength(1);
+  });
+
+  it("should only compare candidates sharing a selective key, so distinct records resolve in linear time", () => {
+    const m = matcher();
+    const count = 5000;
+    const started = Date.now();
+    for (let i = 0; i < count; i++) {
+      m.resolve({ email: `client${i}@example.com`, phone: `+1415555${String(i).padStart(4, "0")}`, name: `Client${i} Family${i}`, address: `${i} Main St, Springfield, CA` });
+    }
+    expect(m.all()).toHaveLength(count);
+    expect(m.reviews).toHaveLength(0);
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+});
@@ -0,0 +1,202 @@
+import { Similarity } from './similarity';
+
+export interface MatchField {
+    /** The record key holding the value */
+    key: string;
+    /** How much this field counts towards the match score */
+    weight: number;
+    /** Normalizes the raw value before comparing, returns an empty string when missing */
+    normalize: (value: unknown) => string;
+    /** `exact` only matches identical normalized values, `fuzzy` scores them with Jaro-Winkler */
+    compare: 'exact' | 'fuzzy';
+    /** Only count the field when the values match, e.g. people often have more than one email or phone */
+    positiveOnly?: boolean;
+    /** An exact match on this field is always the same identity, regardless of the other fields */
+    decisive?: boolean;
+    /**
+     * Identities are only merged when an anchor field matches exactly, e.g. an email or phone.
+     * Without one, a high score on the other fields only flags the pair for review.
+     */
+    anchor?: boolean;
+    /**
+     * Returns selective blocking keys of a raw value, e.g. the last name of a name or the ZIP and street number of an address.
+     * Candidates are found through the exact normalized values of every field and these keys, never through every token.
+     */
+    block?: (value: unknown) => string[];
+    /** Other record keys holding more values of this field, e.g. secondary emails, as a value or a list of values */
+    also?: string[];
+}
+
+export interface MatchOptions {
+    /** Candidates scoring at or above this are merged into the existing identity */
+    mergeThreshold: number;
+    /** Candidates scoring at or above this (but below the merge threshold) are kept apart and flagged for review */
+    reviewThreshold: number;
+    /** Minimum total weight of compared fields for a score to count at all */
+    minEvidence: number;
+}
+
+export interface Identity<T> {
+    id: number;
+    /** The first record resolved to this identity */
+    record: T;
+    /** Every normalized value seen for this identity, by field key */
+    values: Map<string, Set<string>>;
+}
+
+export interface IdentityMatch<T> {
+    identity: Identity<T>;
+    score: number;
+    isNew: boolean;
+}
+
+export interface IdentityReview<T> {
+    identity: Identity<T>;
+    candidate: Identity<T>;
+    score: number;
+}
+
+const DEFAULT_OPTIONS: MatchOptions = {
+    mergeThreshold: 0.85,
+    reviewThreshold: 0.65,
+    minEvidence: 0.3,
+};
+
+/**
+ * Resolves records to identities by scoring them against the identities seen so far.
+ * Candidates are looked up through a blocking index on normalized field values and the fields' `block` keys,
+ * so records are never compared against every identity.
+ */
+export class IdentityMatcher<T extends Record<string, unknown>> {
+    public readonly options: MatchOptions;
+    public readonly reviews: IdentityReview<T>[] = [];
+    private readonly identities: Identity<T>[] = [];
+    private readonly index = new Map<string, Set<number>>();
+
+    constructor(private readonly fields: MatchField[], options?: Partial<MatchOptions>) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    /**
+     * Resolves a record to an existing identity, or creates a new one
+     * @param record The record to resolve
+     * @returns The identity, the best score found and whether the identity was created
+     * @example
+     * const match = matcher.resolve({ email: "jane@example.com", name: "Jane Doe" });
+     * if (!match.isNew) console.log(`Merged with score ${match.score}`);
+     */
+    public resolve(record: T): IdentityMatch<T> {
+        const normalized = this.normalize(record);
+        const keys = this.blockingKeys(record, normalized);
+        let best: { identity: Identity<T>; score: number; anchored: boolean } | undefined;
+        for (const id of this.candidates(keys)) {
+            const identity = this.identities[id];
+            const { score, anchored } = this.score(normalized, identity);
+            if (!best || score > best.score || (score === best.score && anchored && !best.anchored)) {
+                best = { identity, score, anchored };
+            }
+        }
+
+        if (best && best.score >= this.options.mergeThreshold && (best.anchored || !this.hasAnchors())) {
+            this.remember(best.identity, normalized, keys);
+            return { identity: best.identity, score: best.score, isNew: false };
+        }
+
+        const identity: Identity<T> = { id: this.identities.length, record, values: new Map() };
+        this.identities.push(identity);
+        this.remember(identity, normalized, keys);
+        if (best && best.score >= this.options.reviewThreshold) {
+            this.reviews.push({ identity: best.identity, candidate: identity, score: best.score });
+        }
+        return { identity, score: best?.score ?? 0, isNew: true };
+    }
+
+    /**
+     * Returns every identity resolved so far, in the order they were created
+     */
+    public all(): Identity<T>[] {
+        return [...this.identities];
+    }
+
+    /**
+     * Scores a normalized candidate against an identity
+     * @returns A score between 0 and 1, and whether an anchor field matched exactly
+     */
+    private score(candidate: Map<string, string[]>, identity: Identity<T>): { score: number; anchored: boolean } {
+        let compared = 0;
+        let matched = 0;
+        let anchored = false;
+        for (const field of this.fields) {
+            const values = candidate.get(field.key);
+            const known = identity.values.get(field.key);
+            if (!values?.length || !known?.size) continue;
+            const similarity = Math.max(...values.flatMap((value) => Array.from(known, (other) => this.compare(field, value, other))));
+            if (field.decisive && similarity === 1) return { score: 1, anchored: true };
+            if (field.anchor && similarity === 1) anchored = true;
+            if (field.positiveOnly && similarity < 1) continue;
+            compared += field.weight;
+            matched += field.weight * similarity;
+        }
+        return { score: compared >= this.options.minEvidence ? matched / compared : 0, anchored };
+    }
+
+    private hasAnchors(): boolean {
+        return this.fields.some((field) => field.anchor || field.decisive);
+    }
+
+    private compare(field: MatchField, a: string, b: string): number {
+        if (field.compare === 'exact') return a === b ? 1 : 0;
+        return Similarity.jaroWinkler(a, b);
+    }
+
+    /**
+     * Normalizes every value of every field, including the values held by the field's `also` keys
+     */
+    private normalize(record: T): Map<string, string[]> {
+        return new Map(this.fields.map((field) => {
+            const values = this.raw(record, field).map((value) => field.normalize(value)).filter(Boolean);
+            return [field.key, Array.from(new Set(values))];
+        }));
+    }
+
+    /**
+     * Collects the ids of identities sharing a blocking key with the candidate
+     */
+    private candidates(keys: string[]): Set<number> {
+        const ids = new Set<number>();
+        for (const key of keys) {
+            this.index.get(key)?.forEach((id) => ids.add(id));
+        }
+        return ids;
+    }
+
+    private remember(identity: Identity<T>, normalized: Map<string, string[]>, keys: string[]) {
+        normalized.forEach((values, key) => {
+            if (!values.length) return;
+            if (!identity.values.has(key)) identity.values.set(key, new Set());
+            values.forEach((value) => identity.values.get(key).add(value));
+        });
+        for (const key of keys) {
+            if (!this.index.has(key)) this.index.set(key, new Set());
+            this.index.get(key).add(identity.id);
+        }
+    }
+
+    /**
+     * Returns the blocking keys of a record: the normalized value of every field,
+     * plus the keys the field's `block` returns for each raw value
+     */
+    private blockingKeys(record: T, normalized: Map<string, string[]>): string[] {
+        return Array.from(new Set(this.fields.flatMap((field) => [
+            ...(normalized.get(field.key) ?? []).map((value) => `${field.key}=${value}`),
+            ...(field.block ? this.raw(record, field).flatMap((value) => field.block(value)).filter(Boolean).map((key) => `${field.key}~${key}`) : []),
+        ])));
+    }
+
+    /**
+     * Returns the raw values of a field, including the values held by the field's `also` keys
+     */
+    private raw(record: T, field: MatchField): unknown[] {
+        return [record[field.key], ...(field.also ?? []).flatMap((key) => record[key] ?? [])];
+    }
+}
@@ -0,0 +1,166 @@
+import { parsePhoneNumberFromString, CountryCode } from 'libphonenumber-js';
+
+/**
+ * Common street words and their USPS abbreviations, used to normalize addresses for comparison
+ */
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+    street: 'st',
+    avenue: 'ave',
+    road: 'rd',
+    drive: 'dr',
+    lane: 'ln',
+    boulevard: 'blvd',
+    court: 'ct',
+    circle: 'cir',
+    place: 'pl',
+    parkway: 'pkwy',
+    highway: 'hwy',
+    terrace: 'ter',
+    apartment: 'apt',
+    suite: 'ste',
+    north: 'n',
+    south: 's',
+    east: 'e',
+    west: 'w',
+};
+
+/**
+ * Generational suffixes skipped when looking for a last name
+ */
+const NAME_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv']);
+
+export class Similarity {
+    /**
+     * Normalizes an email for comparison by trimming and lowercasing it
+     * @param value The raw email
+     * @returns The normalized email or an empty string when missing
+     * @example
+     * Similarity.normalizeEmail("  John.Doe@Example.COM ") // "john.doe@example.com"
+     */
+    public static normalizeEmail(value: unknown): string {
+        return typeof value === 'string' ? value.trim().toLowerCase() : '';
+    }
+
+    /**
+     * Normalizes a phone number to E.164
+     * @param value The raw phone number
+     * @param country The default country used when the number has no country code
+     * @returns The E.164 number or an empty string when it cannot be parsed
+     * @example
+     * Similarity.normalizePhone("(415) 555-0123") // "+14155550123"
+     */
+    public static normalizePhone(value: unknown, country: CountryCode = 'US'): string {
+        if (typeof value !== 'string' && typeof value !== 'number') return '';
+        const parsed = parsePhoneNumberFromString(String(value), country);
+        return parsed?.isPossible() ? parsed.number : '';
+    }
+
+    /**
+     * Normalizes a person's name: lowercases, strips punctuation and sorts the tokens
+     * so that "Doe, John" and "john doe" compare equal
+     * @param value The raw name
+     * @returns The normalized name or an empty string when missing
+     */
+    public static normalizeName(value: unknown): string {
+        return this.tokenize(value).sort().join(' ');
+    }
+
+    /**
+     * Returns the lowercase last name of a person's name, the word before the comma in "Doe, John" form,
+     * skipping generational suffixes
+     * @param value The raw name
+     * @returns The last name or an empty string when missing
+     * @example
+     * Similarity.lastName("John Doe Jr.") // "doe"
+     * Similarity.lastName("Doe, John") // "doe"
+     * Similarity.lastName("John Doe, Jr.") // "doe"
+     */
+    public static lastName(value: unknown): string {
+        if (typeof value !== 'string') return '';
+        const [family, ...given] = value.split(',');
+        const isInverted = this.tokenize(given.join(' ')).some((token) => !NAME_SUFFIXES.has(token));
+        const tokens = this.tokenize(isInverted ? family : value).filter((token) => !NAME_SUFFIXES.has(token));
+        return (isInverted ? tokens[0] : tokens[tokens.length - 1]) ?? '';
+    }
+
+    /**
+     * Normalizes an address: lowercases, strips punctuation and abbreviates common street words
+     * @param value The raw address
+     * @returns The normalized address or an empty string when missing
+     * @example
+     * Similarity.normalizeAddress("123 North Main Street, Apartment 4") // "123 n main st apt 4"
+     */
+    public static normalizeAddress(value: unknown): string {
+        return this.tokenize(value)
+            .map((token) => ADDRESS_ABBREVIATIONS[token] ?? token)
+            .join(' ');
+    }
+
+    /**
+     * Splits a value into lowercase alphanumeric tokens
+     * @param value The raw value
+     * @returns The tokens, empty when the value is missing
+     */
+    public static tokenize(value: unknown): string[] {
+        if (typeof value !== 'string') return [];
+        return value
+            .toLowerCase()
+            .replace(/[^a-z0-9\s]/g, ' ')
+            .split(/\s+/)
+            .filter(Boolean);
+    }
+
+    /**
+     * Computes the Jaro-Winkler similarity of two strings
+     * @param a The first string
+     * @param b The second string
+     * @returns A score between 0 (no similarity) and 1 (identical)
+     * @example
+     * Similarity.jaroWinkler("jon smith", "john smith") // ~0.97
+     */
+    public static jaroWinkler(a: string, b: string): number {
+        if (!a || !b) return 0;
+        if (a === b) return 1;
+        const jaro = this.jaro(a, b);
+        let prefix = 0;
+        while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) {
+            prefix++;
+        }
+        return jaro + prefix * 0.1 * (1 - jaro);
+    }
+
+    /**
+     * Computes the Jaro similarity of two strings
+     * @param a The first string
+     * @param b The second string
+     * @returns A score between 0 and 1
+     */
+    private static jaro(a: string, b: string): number {
+        const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+        const aMatches = new Array(a.length).fill(false);
+        const bMatches = new Array(b.length).fill(false);
+        let matches = 0;
+        for (let i = 0; i < a.length; i++) {
+            const start = Math.max(0, i - window);
+            const end = Math.min(i + window + 1, b.length);
+            for (let j = start; j < end; j++) {
+                if (!bMatches[j] && a[i] === b[j]) {
+                    aMatches[i] = true;
+                    bMatches[j] = true;
+                    matches++;
+                    break;
+                }
+            }
+        }
+        if (matches === 0) return 0;
+        let transpositions = 0;
+        let k = 0;
+        for (let i = 0; i < a.length; i++) {
+            if (!aMatches[i]) continue;
+            while (!bMatches[k]) k++;
+            if (a[i] !== b[k]) transpositions++;
+            k++;
+        }
+        return (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+    }
+}
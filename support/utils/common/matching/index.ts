@@ -0,0 +1,7 @@
+import { IdentityMatcher, MatchField, MatchOptions, Identity, IdentityMatch, IdentityReview } from "./helpers/identity.matcher";
+import { ConflictResolver, ConflictPolicy, FieldConflict, ConflictingValue, ConflictResolution } from "./helpers/conflict.resolver";
+import { Similarity } from "./helpers/similarity";
+import { EnumMatcher, EnumOption, EnumMatchOptions, EnumMatch, EnumListMatch } from "./helpers/enum.matcher";
+
+export { IdentityMatcher, ConflictResolver, ConflictPolicy, Similarity, EnumMatcher };
+export type { MatchField, MatchOptions, Identity, IdentityMatch, IdentityReview, FieldConflict, ConflictingValue, ConflictResolution, EnumOption, EnumMatchOptions, EnumMatch, EnumListMatch };
@@ -0,0 +1,63 @@
+import { PeopleDirectory } from "./people.directory";
+
+describe("PeopleDirectory", () => {
+  it("should dedupe people by email and keep the most used spelling", () => {
+    const directory = new PeopleDirectory();
+    directory.add({ name: "Jane Doe", email: "Jane@Example.com", role: "Sales Closer", recordId: "r1" });
+    directory.add({ name: "jane doe", email: "jane@example.com", role: "Project Manager", recordId: "r2" });
+    directory.add({ name: "Jane Doe", email: "jane@example.com", role: "Sales Closer", recordId: "r3" });
+    const [jane] = directory.people();
+    expect(jane).toMatchObject({
+      key: "jane@example.com",
+      name: "Jane Doe",
+      email: "jane@example.com",
+      aliases: [],
+      roles: ["Sales Closer", "Project Manager"],
+      recordIds: ["r1", "r2", "r3"],
+      issues: [],
+    });
+  });
+
+  it("should report an email used with different names and a name used with different emails", () => {
+    const directory = new PeopleDirectory();
+    directory.add({ name: "Jane Doe", email: "jane@example.com", role: "Sales Closer", recordId: "r1" });
+    directory.add({ name: "Janet Doe", email: "jane@example.com", role: "Sales Closer", recordId: "r2" });
+    directory.add({ name: "Jane Doe", email: "jdoe@other.com", role: "Project Manager", recordId: "r3" });
+    const [jane, other] = directory.people();
+    expect(jane.issues).toEqual([
+      'jane@example.com is named "Jane Doe" (1 projects), "Janet Doe" (1 projects)',
+      '"Jane Doe" is also used with jdoe@other.com',
+    ]);
+    expect(other.issues).toEqual(['"Jane Doe" is also used with jane@example.com']);
+  });
+
+  it("should attach people mentioned by name to the person with that name or roster user", () => {
+    const directory = new PeopleDirectory([
+      { name: "jane@example.com", userId: "u-1" },
+      { name: "J. Doe", userId: "u-1" },
+    ]);
+    directory.add({ name: "Jane Doe", email: "jane@example.com", role: "Sales Closer", recordId: "r1" });
+    directory.add({ name: "Doe, Jane", role: "Sales Rep", recordId: "r2" });
+    directory.add({ name: "J. Doe", role: "Owner", recordId: "r3" });
+    directory.add({ name: "Sam Lee", role: "Owner", recordId: "r4" });
+    const people = directory.people();
+    expect(people).toHaveLength(2);
+    expect(people[0]).toMatchObject({ userId: "u-1", aliases: ["J. Doe"], roles: ["Sales Closer", "Sales Rep", "Owner"], issues: [] });
+    expect(people[1]).toMatchObject({ key: "name:lee sam", email: null, userId: null });
+    const find = PeopleDirectory.lookup(people);
+    expect(find({ name: "J. Doe" })?.email).toBe("jane@example.com");
+    expect(find({ name: "Sam Lee" })?.key).toBe("name:lee sam");
+    expect(find({ name: "" })).toBeUndefined();
+  });
+
+  it("should report a person the roster maps to several users", () => {
+    const directory = new PeopleDirectory([
+      { name: "jane@example.com", userId: "u-1" },
+      { name: "Jane Doe", userId: "u-2" },
+    ]);
+    directory.add({ name: "Jane Doe", email: "jane@example.com", role: "Sales Closer", recordId: "r1" });
+    const [jane] = directory.people();
+    expect(jane.userId).toBeNull();
+    expect(jane.issues).toEqual(["The roster maps this person to several Coperniq users: u-1, u-2"]);
+  });
+});
@@ -0,0 +1,221 @@
+import { Similarity } from '../../matching';
+
+export interface PersonMention {
+    name?: string | null;
+    email?: string | null;
+    // the role the person holds on the record, e.g. "Sales Rep"
+    role: string;
+    recordId: string;
+}
+
+/**
+ * A row of the roster: a name or email as written in the records, and the Coperniq user it stands for
+ */
+export interface RosterEntry {
+    name: string;
+    userId: string;
+}
+
+export interface Person {
+    // the email, or `name:<normalized name>` for people mentioned without one
+    key: string;
+    // the spelling used on the most records
+    name: string | null;
+    email: string | null;
+    // the other spellings of the name
+    aliases: string[];
+    roles: string[];
+    recordIds: string[];
+    userId: string | null;
+    // inconsistencies a human should look at, e.g. one email used with two names
+    issues: string[];
+}
+
+interface Spelling {
+    name: string;
+    recordIds: Set<string>;
+    // written next to the email, rather than attached by name or through the roster
+    paired: boolean;
+}
+
+interface Mentioned {
+    email: string | null;
+    spellings: Map<string, Spelling>;
+    roles: Set<string>;
+    recordIds: Set<string>;
+}
+
+/**
+ * Builds a directory of the people mentioned across records (sales reps, project managers, closers...), one per email.
+ * People mentioned by name only are attached to the person using that name with an email, or to the person the roster
+ * maps to the same Coperniq user. Every person is checked for consistency: one email used with different names,
+ * one name used with different emails, and roster entries mapping one person to several users.
+ */
+export class PeopleDirectory {
+    private readonly byEmail = new Map<string, Mentioned>();
+    private readonly byName = new Map<string, Mentioned>();
+    private readonly roster = new Map<string, string>();
+
+    /**
+     * @param roster The user-maintained mapping of raw names and emails to Coperniq user ids
+     */
+    constructor(roster: RosterEntry[] = []) {
+        roster
+            .filter(({ name, userId }) => name?.trim() && userId?.trim())
+            .forEach(({ name, userId }) => this.roster.set(this.rosterKey(name), userId.trim()));
+    }
+
+    /**
+     * Records that a person is mentioned on a record
+     * @param mention The name and/or email, the role and the record
+     * @example
+     * directory.add({ name: project.sales_closer_name, email: project.sales_closer_email, role: "Sales Closer", recordId: project.id });
+     */
+    public add(mention: PersonMention) {
+        const email = Similarity.normalizeEmail(mention.email);
+        const name = typeof mention.name === 'string' ? mention.name.trim() : '';
+        const normalized = Similarity.normalizeName(name);
+        if (!email && !normalized) {
+            return;
+        }
+
+        const people = email ? this.byEmail : this.byName;
+        const key = email || normalized;
+        const person = people.get(key) ?? { email: email || null, spellings: new Map(), roles: new Set(), recordIds: new Set() };
+        people.set(key, person);
+        person.roles.add(mention.role);
+        person.recordIds.add(mention.recordId);
+        if (normalized) {
+            const spelling = person.spellings.get(normalized) ?? { name, recordIds: new Set(), paired: Boolean(email) };
+            spelling.recordIds.add(mention.recordId);
+            person.spellings.set(normalized, spelling);
+        }
+    }
+
+    /**
+     * Resolves every person mentioned so far
+     * @returns the people, those with an email first
+     */
+    public people(): Person[] {
+        const emailsByName = new Map<string, string[]>();
+        this.byEmail.forEach((person, email) => {
+            person.spellings.forEach((_, normalized) => emailsByName.set(normalized, [...(emailsByName.get(normalized) ?? []), email]));
+        });
+        const emailsByUser = new Map<string, string[]>();
+        this.byEmail.forEach((person, email) => {
+            this.userIdsOf(person).forEach((userId) => emailsByUser.set(userId, [...(emailsByUser.get(userId) ?? []), email]));
+        });
+
+        // Attach the people mentioned by name only to the one person using that name, or mapped to the same user
+        const merged = new Map(Array.from(this.byEmail, ([email, person]) => [email, this.copy(person)]));
+        const unattached: Array<[string, Mentioned]> = [];
+        const ambiguous = new Map<string, string[]>();
+        this.byName.forEach((person, normalized) => {
+            const [userId] = this.userIdsOf(person);
+            const candidates = emailsByName.get(normalized) ?? (userId ? emailsByUser.get(userId) : undefined) ?? [];
+            if (candidates.length === 1) {
+                this.merge(merged.get(candidates[0]), person);
+            } else {
+                unattached.push([normalized, person]);
+                if (candidates.length > 1) ambiguous.set(normalized, candidates);
+            }
+        });
+
+        return [
+            ...Array.from(merged, ([email, person]) => this.toPerson(email, person, emailsByName)),
+            ...unattached.map(([normalized, person]) => {
+                const resolved = this.toPerson(`name:${normalized}`, person, emailsByName);
+                if (ambiguous.has(normalized)) {
+                    resolved.issues.unshift(`Mentioned without an email and could be any of ${ambiguous.get(normalized).join(', ')}`);
+                }
+                return resolved;
+            }),
+        ];
+    }
+
+    /**
+     * Indexes the people of the directory to find the person a mention resolved to
+     * @param people The people returned by people()
+     * @returns a lookup taking the name and/or email as written on a record, returning undefined when the mention is empty
+     * @example
+     * const find = PeopleDirectory.lookup(directory.people());
+     * find({ name: "J. Doe" })?.userId // "u-1"
+     */
+    public static lookup(people: Person[]): (mention: Pick<PersonMention, 'name' | 'email'>) => Person | undefined {
+        const byEmail = new Map(people.filter((person) => person.email).map((person) => [person.email, person]));
+        const byName = new Map<string, Person>();
+        people.filter((person) => !person.email).forEach((person) => byName.set(person.key.substring('name:'.length), person));
+        people.forEach((person) => {
+            [person.name, ...person.aliases]
+                .map((name) => Similarity.normalizeName(name))
+                .filter((name) => name && !byName.has(name))
+                .forEach((name) => byName.set(name, person));
+        });
+        return (mention) => {
+            const email = Similarity.normalizeEmail(mention.email);
+            return email ? byEmail.get(email) : byName.get(Similarity.normalizeName(mention.name));
+        };
+    }
+
+    private toPerson(key: string, person: Mentioned, emailsByName: Map<string, string[]>): Person {
+        const spellings = Array.from(person.spellings).sort(([, a], [, b]) => b.recordIds.size - a.recordIds.size);
+        const userIds = this.userIdsOf(person);
+        const paired = spellings.filter(([, spelling]) => spelling.paired);
+        const issues: string[] = [];
+        if (paired.length > 1) {
+            issues.push(`${person.email} is named ${paired.map(([, { name, recordIds }]) => `"${name}" (${recordIds.size} projects)`).join(', ')}`);
+        }
+        if (person.email) {
+            spellings
+                .filter(([normalized]) => (emailsByName.get(normalized)?.length ?? 0) > 1)
+                .forEach(([normalized, { name }]) => {
+                    const others = emailsByName.get(normalized).filter((email) => email !== person.email);
+                    issues.push(`"${name}" is also used with ${others.join(', ')}`);
+                });
+        }
+        if (userIds.length > 1) {
+            issues.push(`The roster maps this person to several Coperniq users: ${userIds.join(', ')}`);
+        }
+        return {
+            key,
+            name: spellings[0]?.[1].name ?? null,
+            email: person.email,
+            aliases: spellings.slice(1).map(([, { name }]) => name),
+            roles: Array.from(person.roles),
+            recordIds: Array.from(person.recordIds),
+            userId: userIds.length === 1 ? userIds[0] : null,
+            issues,
+        };
+    }
+
+    /**
+     * The distinct Coperniq users the roster maps the email or any spelling of a person to
+     */
+    private userIdsOf(person: Mentioned): string[] {
+        const keys = [person.email, ...Array.from(person.spellings.keys())].filter(Boolean);
+        return Array.from(new Set(keys.map((key) => this.roster.get(key)).filter(Boolean)));
+    }
+
+    private rosterKey(name: string): string {
+        return name.includes('@') ? Similarity.normalizeEmail(name) : Similarity.normalizeName(name);
+    }
+
+    private copy(person: Mentioned): Mentioned {
+        return {
+            email: person.email,
+            spellings: new Map(Array.from(person.spellings, ([key, spelling]) => [key, { ...spelling, recordIds: new Set(spelling.recordIds) }])),
+            roles: new Set(person.roles),
+            recordIds: new Set(person.recordIds),
+        };
+    }
+
+    private merge(into: Mentioned, person: Mentioned) {
+        person.roles.forEach((role) => into.roles.add(role));
+        person.recordIds.forEach((id) => into.recordIds.add(id));
+        person.spellings.forEach(({ name, recordIds }, key) => {
+            const spelling = into.spellings.get(key) ?? { name, recordIds: new Set(), paired: false };
+            recordIds.forEach((id) => spelling.recordIds.add(id));
+            into.spellings.set(key, spelling);
+        });
+    }
+}
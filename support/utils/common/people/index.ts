@@ -0,0 +1,4 @@
+import { PeopleDirectory, PersonMention, RosterEntry, Person } from "./helpers/people.directory";
+
+export { PeopleDirectory };
+export type { PersonMention, RosterEntry, Person };
@@ -0,0 +1,47 @@
+import { QualityReport } from "./quality.report";
+
+describe("QualityReport", () => {
+  const fields = [
+    { key: "status", label: "Status", group: "Standard" },
+    { key: "stage", label: "Stage", group: "Standard" },
+    { key: "system_size", label: "System Size", group: "System Info" },
+    { key: "notes", label: "Notes", group: "Notes" },
+  ];
+
+  it("should score each record on the fields of the groups", () => {
+    const report = new QualityReport(fields, { groups: ["Standard", "System Info"] });
+    expect(report.add({ status: "Active", stage: "Install", system_size: 7.2, notes: "" })).toBe(100);
+    expect(report.add({ status: "Active", stage: " ", system_size: null, notes: "Call first" })).toBe(33);
+    expect(report.add({})).toBe(0);
+    expect(report.count).toBe(3);
+  });
+
+  it("should compute the fill rate, error rate and distinct values of every field", () => {
+    const report = new QualityReport(fields);
+    report.add({ status: "Active", stage: "Install" }, ["stage"]);
+    report.add({ status: "Active", stage: "" }, []);
+    report.add({ status: "Canceled", stage: "Install" }, ["stage", "status"]);
+    report.add({ status: "", stage: "PTO" });
+    const [status, stage, systemSize] = report.fieldQuality();
+    expect(status).toMatchObject({ key: "status", label: "Status", group: "Standard", fillRate: 0.75, errorRate: 0.25, distinct: 2 });
+    expect(stage).toMatchObject({ fillRate: 0.75, errorRate: 0.5, distinct: 2 });
+    expect(systemSize).toMatchObject({ fillRate: 0, errorRate: 0, distinct: 0 });
+  });
+
+  it("should compute the completeness of every group and overall", () => {
+    const report = new QualityReport(fields, { groups: ["Standard", "System Info"] });
+    report.add({ status: "Active", stage: "Install", system_size: 7.2 });
+    report.add({ status: "Active" });
+    expect(report.groupQuality()).toEqual([
+      { group: "Standard", fields: 2, completeness: 0.75 },
+      { group: "System Info", fields: 1, completeness: 0.5 },
+    ]);
+    expect(report.completeness()).toBe(0.667);
+  });
+
+  it("should stop counting distinct values at the limit", () => {
+    const report = new QualityReport([{ key: "id" }], { maxDistinct: 2 });
+    ["a", "b", "c", "a"].forEach((id) => report.add({ id }));
+    expect(report.fieldQuality()[0]).toMatchObject({ distinct: 2, distinctCapped: true, fillRate: 1 });
+  });
+});
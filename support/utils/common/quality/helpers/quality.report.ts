@@ -0,0 +1,168 @@
+export interface QualityField {
+    key: string;
+    label?: string;
+    // the field group, e.g. "Standard"
+    group?: string;
+}
+
+export interface FieldQuality {
+    key: string;
+    label: string;
+    group: string | null;
+    // share of the records with the field filled, from 0 to 1
+    fillRate: number;
+    // share of the records with an error on the field, from 0 to 1
+    errorRate: number;
+    // number of distinct filled values, capped at the distinct limit
+    distinct: number;
+    // the field has more distinct values than the limit
+    distinctCapped: boolean;
+}
+
+export interface GroupQuality {
+    group: string;
+    fields: number;
+    // share of the cells of the group that are filled, from 0 to 1
+    completeness: number;
+}
+
+export interface QualityReportOptions {
+    // the groups completeness is computed for, every group of the fields by default
+    groups?: string[];
+    // distinct values counted per field before counting stops, so memory stays bounded on unique fields (default 10000)
+    maxDistinct?: number;
+}
+
+interface FieldStats {
+    filled: number;
+    errors: number;
+    distinct: Set<string>;
+    distinctCapped: boolean;
+}
+
+/**
+ * Measures how complete and clean the records of a sheet are, record by record so that a sheet can be read page by page:
+ * the fill rate, error rate and distinct values of every field, the completeness of every field group,
+ * and a completeness score for each record.
+ */
+export class QualityReport {
+    private readonly stats = new Map<string, FieldStats>();
+    private readonly groups: string[];
+    private readonly maxDistinct: number;
+    private records = 0;
+
+    /**
+     * @param fields The fields measured, with their group
+     * @param options The groups completeness is computed for and the limit of distinct values counted
+     * @example
+     * const report = new QualityReport(sheet.fields.map((field) => ({ key: field.key, label: field.label, group: field.metadata?.group })), {
+     *     groups: ["Standard", "System Info"],
+     * });
+     */
+    constructor(private readonly fields: QualityField[], options: QualityReportOptions = {}) {
+        this.groups = options.groups ?? Array.from(new Set(fields.map((field) => field.group).filter(Boolean)));
+        this.maxDistinct = options.maxDistinct ?? 10_000;
+        fields.forEach((field) => this.stats.set(field.key, { filled: 0, errors: 0, distinct: new Set(), distinctCapped: false }));
+    }
+
+    /**
+     * Internal helper to tell whether a value is filled
+     */
+    private static isFilled(value: unknown): boolean {
+        return value !== null && value !== undefined && String(value).trim() !== '' && !(Array.isArray(value) && value.length === 0);
+    }
+
+    /**
+     * Adds a record to the report
+     * @param values The values of the record, by field key
+     * @param errors The keys of the fields with an error
+     * @returns the completeness score of the record, the percentage of the fields of the groups that are filled
+     * @example
+     * report.add({ status: "Active", stage: "" }, ["stage"]) // 50
+     */
+    public add(values: Record<string, unknown>, errors: string[] = []): number {
+        this.records++;
+        const withErrors = new Set(errors);
+        let scored = 0;
+        let filled = 0;
+        for (const field of this.fields) {
+            const stats = this.stats.get(field.key);
+            const value = values[field.key];
+            const isFilled = QualityReport.isFilled(value);
+            if (isFilled) {
+                stats.filled++;
+                this.countDistinct(stats, value);
+            }
+            if (withErrors.has(field.key)) {
+                stats.errors++;
+            }
+            if (this.groups.includes(field.group)) {
+                scored++;
+                if (isFilled) filled++;
+            }
+        }
+        return scored === 0 ? 100 : Math.round((filled / scored) * 100);
+    }
+
+    /**
+     * Number of records added
+     */
+    public get count(): number {
+        return this.records;
+    }
+
+    /**
+     * The quality of every field, in the order of the fields
+     */
+    public fieldQuality(): FieldQuality[] {
+        return this.fields.map((field) => {
+            const stats = this.stats.get(field.key);
+            return {
+                key: field.key,
+                label: field.label ?? field.key,
+                group: field.group ?? null,
+                fillRate: this.rate(stats.filled),
+                errorRate: this.rate(stats.errors),
+                distinct: stats.distinct.size,
+                distinctCapped: stats.distinctCapped,
+            };
+        });
+    }
+
+    /**
+     * The completeness of every group, in the order of the groups
+     */
+    public groupQuality(): GroupQuality[] {
+        return this.groups.map((group) => {
+            const fields = this.fields.filter((field) => field.group === group);
+            const filled = fields.reduce((sum, field) => sum + this.stats.get(field.key).filled, 0);
+            return { group, fields: fields.length, completeness: this.rate(filled, fields.length) };
+        });
+    }
+
+    /**
+     * The completeness of all the groups together, the share of their cells that are filled
+     */
+    public completeness(): number {
+        const fields = this.fields.filter((field) => this.groups.includes(field.group));
+        const filled = fields.reduce((sum, field) => sum + this.stats.get(field.key).filled, 0);
+        return this.rate(filled, fields.length);
+    }
+
+    private countDistinct(stats: FieldStats, value: unknown) {
+        const key = Array.isArray(value) ? JSON.stringify(value) : String(value).trim();
+        if (stats.distinct.has(key)) {
+            return;
+        }
+        if (stats.distinct.size >= this.maxDistinct) {
+            stats.distinctCapped = true;
+            return;
+        }
+        stats.distinct.add(key);
+    }
+
+    private rate(count: number, fields = 1): number {
+        const cells = this.records * fields;
+        return cells === 0 ? 0 : Math.round((count / cells) * 1000) / 1000;
+    }
+}
@@ -0,0 +1,4 @@
+import { QualityReport, QualityField, FieldQuality, GroupQuality, QualityReportOptions } from "./helpers/quality.report";
+
+export { QualityReport };
+export type { QualityField, FieldQuality, GroupQuality, QualityReportOptions };
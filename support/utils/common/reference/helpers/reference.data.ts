@@ -0,0 +1,38 @@
+import { ReferenceEntity, ReferenceList } from './reference.list';
+import utilities from '../data/utilities.json';
+import ahjs from '../data/ahjs.json';
+import hoas from '../data/hoas.json';
+
+/**
+ * The reference lists bundled in the data directory, by name.
+ * They are imported rather than read from disk, so that they are part of the deployed bundle.
+ */
+export const REFERENCE_LISTS: Record<string, ReferenceEntity[]> = {
+    utilities,
+    ahjs,
+    hoas,
+};
+
+/**
+ * Indexes the bundled reference lists on first use and keeps them for the life of the process
+ */
+export class ReferenceData {
+    private static readonly lists = new Map<string, ReferenceList>();
+
+    /**
+     * The bundled reference list of a name
+     * @param name The name of the list, e.g. "utilities"
+     * @throws Error when no list of that name is bundled
+     * @example
+     * ReferenceData.list("utilities").match("PG&E", { state: "CA" })?.entity.name // "Pacific Gas and Electric"
+     */
+    public static list(name: string): ReferenceList {
+        if (!REFERENCE_LISTS[name]) {
+            throw new Error(`No reference list is named "${name}", expected one of ${Object.keys(REFERENCE_LISTS).join(', ')}`);
+        }
+        if (!this.lists.has(name)) {
+            this.lists.set(name, new ReferenceList(REFERENCE_LISTS[name]));
+        }
+        return this.lists.get(name);
+    }
+}
@@ -0,0 +1,45 @@
+import { ReferenceList } from "./reference.list";
+import { ReferenceData } from "./reference.data";
+
+describe("ReferenceList", () => {
+  const utilities = ReferenceList.fromCsv(
+    [
+      "id,name,aliases,states",
+      'pge,Pacific Gas and Electric,"PG&E|Pacific Gas",CA',
+      "portland-general,Portland General Electric,PGE,OR",
+      "sce,Southern California Edison,SCE|Edison,CA",
+      "xcel,Xcel Energy,,CO|MN",
+    ].join("\n"),
+  );
+
+  it("should match names, aliases and initials however they are written", () => {
+    expect(utilities.match("PG&E", { state: "CA" })?.entity.id).toBe("pge");
+    expect(utilities.match("pacific gas & electric co.", { state: "CA" })?.entity.id).toBe("pge");
+    expect(utilities.match("SoCal Edison")).toBeNull();
+    expect(utilities.match("S.C.E.")?.entity.name).toBe("Southern California Edison");
+  });
+
+  it("should tell entities sharing a name apart by state", () => {
+    expect(utilities.match("PGE")).toBeNull();
+    expect(utilities.match("PGE", { state: "OR" })?.entity.id).toBe("portland-general");
+    expect(utilities.match("PGE", { state: "ca" })?.entity.id).toBe("pge");
+  });
+
+  it("should flag an entity matched outside of the state", () => {
+    expect(utilities.match("Xcel", { state: "TX" })).toMatchObject({ entity: { id: "xcel" }, via: "exact", outOfState: true });
+    expect(utilities.match("Xcel", { state: "CO" })?.outOfState).toBe(false);
+  });
+
+  it("should match misspelled names above the fuzzy threshold", () => {
+    expect(utilities.match("Southern Califonia Edison")).toMatchObject({ entity: { id: "sce" }, via: "fuzzy" });
+    expect(utilities.match("Southern Power")).toBeNull();
+    expect(new ReferenceList(utilities.entities, { fuzzy: false }).match("Southern Califonia Edison")).toBeNull();
+  });
+
+  it("should load the bundled lists", () => {
+    expect(ReferenceData.list("utilities").match("SDG&E")?.entity.id).toBe("sdge");
+    expect(ReferenceData.list("ahjs").match("LADBS")?.entity.id).toBe("ca-los-angeles");
+    expect(ReferenceData.list("hoas").match("N/A")?.entity.id).toBe("none");
+    expect(() => ReferenceData.list("schools")).toThrow("No reference list is named");
+  });
+});
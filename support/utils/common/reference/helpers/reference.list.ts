@@ -0,0 +1,196 @@
+import { Similarity } from '../../matching';
+
+/**
+ * An entity of a reference list, e.g. a utility or an authority having jurisdiction (AHJ)
+ */
+export interface ReferenceEntity {
+    id: string;
+    // canonical name written back in place of the imported value
+    name: string;
+    // other names the entity is known by, e.g. "PG&E" for "Pacific Gas and Electric"
+    aliases?: string[];
+    // two-letter abbreviations of the states the entity operates in, every state when empty
+    states?: string[];
+}
+
+export interface ReferenceMatchOptions {
+    // two-letter abbreviation of the state the entity should operate in
+    state?: string;
+}
+
+export interface ReferenceMatch {
+    entity: ReferenceEntity;
+    via: 'exact' | 'fuzzy';
+    score: number;
+    // the entity matched but doesn't operate in the requested state
+    outOfState: boolean;
+}
+
+export interface ReferenceListOptions {
+    // minimum Jaro-Winkler similarity of a fuzzy match, false to disable fuzzy matching (default 0.9)
+    fuzzy?: number | false;
+}
+
+/**
+ * Words left out when comparing names, so that "Pacific Gas & Electric Co." matches "Pacific Gas and Electric"
+ */
+const IGNORED_WORDS = new Set(['the', 'and', 'of', 'inc', 'llc', 'co', 'corp', 'corporation', 'company']);
+
+/**
+ * Matches free-text names (e.g. "PGE", "Pacific Gas & Electric") to the canonical entities of a reference list.
+ * Names are compared without punctuation, case, corporate suffixes and filler words, so "PG&E" and "PGE" are the same,
+ * and the initials of multi-word names count as an alias.
+ */
+export class ReferenceList {
+    private readonly keys = new Map<string, ReferenceEntity[]>();
+    private readonly fuzzy: number | false;
+
+    /**
+     * @param entities The entities of the list
+     * @param options Fuzzy matching threshold
+     * @example
+     * const utilities = new ReferenceList([{ id: "pge", name: "Pacific Gas and Electric", aliases: ["PG&E"], states: ["CA"] }]);
+     */
+    constructor(public readonly entities: ReferenceEntity[], options: ReferenceListOptions = {}) {
+        this.fuzzy = options.fuzzy ?? 0.9;
+        for (const entity of entities) {
+            const names = [entity.id, entity.name, ...(entity.aliases ?? []), this.initials(entity.name)];
+            new Set(names.map((name) => this.normalize(name)).filter(Boolean)).forEach((key) => {
+                this.keys.set(key, [...(this.keys.get(key) ?? []), entity]);
+            });
+        }
+    }
+
+    /**
+     * Parses a reference list from JSON, an array of entities
+     * @param json The JSON text
+     * @param options Fuzzy matching threshold
+     */
+    public static fromJson(json: string, options?: ReferenceListOptions): ReferenceList {
+        return new ReferenceList(JSON.parse(json), options);
+    }
+
+    /**
+     * Parses a reference list from CSV with an `id,name,aliases,states` header,
+     * the aliases and the states of an entity are separated by `|`
+     * @param csv The CSV text
+     * @param options Fuzzy matching threshold
+     * @example
+     * ReferenceList.fromCsv('id,name,aliases,states\npge,Pacific Gas and Electric,"PG&E|PGE",CA');
+     */
+    public static fromCsv(csv: string, options?: ReferenceListOptions): ReferenceList {
+        const [header, ...rows] = this.parseCsv(csv);
+        const column = (name: string) => header.findIndex((cell) => cell.trim().toLowerCase() === name);
+        const [id, name, aliases, states] = ['id', 'name', 'aliases', 'states'].map(column);
+        if (id === -1 || name === -1) {
+            throw new Error('Reference list CSV must have an id and a name column');
+        }
+        const list = (row: string[], index: number) => (row[index] ?? '').split('|').map((item) => item.trim()).filter(Boolean);
+        const entities = rows
+            .filter((row) => row[id]?.trim())
+            .map((row) => ({ id: row[id].trim(), name: row[name].trim(), aliases: list(row, aliases), states: list(row, states) }));
+        return new ReferenceList(entities, options);
+    }
+
+    /**
+     * Finds the entity a name refers to: an exact match of its id, name, aliases or initials, otherwise the closest name.
+     * With a state, entities operating in it are preferred, an entity matched outside of it is flagged `outOfState`.
+     * @param value The free-text name
+     * @param options The state the entity should operate in
+     * @returns the match, or null when no entity or more than one matches
+     * @example
+     * utilities.match("PG & E", { state: "CA" }) // { entity: { id: "pge", ... }, via: "exact", score: 1, outOfState: false }
+     */
+    public match(value: unknown, options: ReferenceMatchOptions = {}): ReferenceMatch | null {
+        const key = this.normalize(value);
+        if (!key) {
+            return null;
+        }
+        const state = options.state?.toUpperCase();
+        const inState = (entity: ReferenceEntity) => !state || !entity.states?.length || entity.states.includes(state);
+
+        const exact = this.keys.get(key) ?? [];
+        const exactInState = exact.filter(inState);
+        if (exact.length > 0) {
+            const candidates = exactInState.length > 0 ? exactInState : exact;
+            return candidates.length === 1
+                ? { entity: candidates[0], via: 'exact', score: 1, outOfState: exactInState.length === 0 }
+                : null;
+        }
+        if (this.fuzzy === false) {
+            return null;
+        }
+        return this.closest(key, this.entities.filter(inState), false) ?? this.closest(key, this.entities, true);
+    }
+
+    /**
+     * The entity whose name or alias is the most similar to the key, when it is similar enough and no other entity is as similar
+     */
+    private closest(key: string, entities: ReferenceEntity[], outOfState: boolean): ReferenceMatch | null {
+        let best: ReferenceMatch | null = null;
+        let tied = false;
+        for (const entity of entities) {
+            const score = Math.max(...[entity.name, ...(entity.aliases ?? [])].map((name) => Similarity.jaroWinkler(key, this.normalize(name))));
+            if (score < (this.fuzzy as number) || (best && score < best.score)) {
+                continue;
+            }
+            tied = best !== null && score === best.score && best.entity !== entity;
+            best = { entity, via: 'fuzzy', score, outOfState };
+        }
+        return tied ? null : best;
+    }
+
+    private normalize(value: unknown): string {
+        if (typeof value !== 'string') {
+            return '';
+        }
+        return Similarity.tokenize(value.replace(/&/g, ' and ')).filter((word) => !IGNORED_WORDS.has(word)).join('');
+    }
+
+    /**
+     * Initials of a name of several words, e.g. "pge" for "Pacific Gas and Electric", empty for a single word
+     */
+    private initials(name: string): string {
+        const words = Similarity.tokenize(name).filter((word) => !IGNORED_WORDS.has(word));
+        return words.length > 1 ? words.map((word) => word[0]).join('') : '';
+    }
+
+    /**
+     * Splits CSV text into rows of cells, honoring quoted cells with commas, newlines and doubled quotes
+     */
+    private static parseCsv(csv: string): string[][] {
+        const rows: string[][] = [];
+        let row: string[] = [];
+        let cell = '';
+        let quoted = false;
+        for (let index = 0; index < csv.length; index++) {
+            const char = csv[index];
+            if (quoted) {
+                if (char === '"' && csv[index + 1] === '"') {
+                    cell += '"';
+                    index++;
+                } else if (char === '"') {
+                    quoted = false;
+                } else {
+                    cell += char;
+                }
+            } else if (char === '"') {
+                quoted = true;
+            } else if (char === ',') {
+                row.push(cell);
+                cell = '';
+            } else if (char === '\n' || char === '\r') {
+                if (char === '\r' && csv[index + 1] === '\n') index++;
+                rows.push([...row, cell]);
+                row = [];
+                cell = '';
+            } else {
+                cell += char;
+            }
+        }
+        if (cell || row.length > 0) {
+            rows.push([...row, cell]);
+        }
+        return rows.filter((cells) => cells.some((value) => value.trim()));
+    }
+}
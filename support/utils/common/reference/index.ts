@@ -0,0 +1,5 @@
+import { ReferenceList, ReferenceEntity, ReferenceMatch, ReferenceMatchOptions, ReferenceListOptions } from "./helpers/reference.list";
+import { ReferenceData, REFERENCE_LISTS } from "./helpers/reference.data";
+
+export { ReferenceList, ReferenceData, REFERENCE_LISTS };
+export type { ReferenceEntity, ReferenceMatch, ReferenceMatchOptions, ReferenceListOptions };
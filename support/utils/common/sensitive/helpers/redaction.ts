@@ -0,0 +1,40 @@
+import { SENSITIVE_MASK } from './sensitive.cipher';
+
+/**
+ * Header names holding credentials, matched anywhere in the lowercase name
+ */
+const SENSITIVE_HEADER_WORDS = ['authorization', 'cookie', 'token', 'secret', 'signature', 'password', 'api-key', 'apikey'];
+
+export class Redaction {
+    /**
+     * Masks the values of headers carrying credentials, e.g. `Authorization` or `x-api-key`
+     * @param headers The headers, as a plain object or a Headers instance
+     * @returns a copy of the headers safe to log
+     * @example
+     * Redaction.headers({ "Content-Type": "application/json", "x-api-key": "abc" })
+     * // { "Content-Type": "application/json", "x-api-key": "••••••" }
+     */
+    public static headers(headers: unknown): Record<string, string> {
+        const entries: Array<[string, unknown]> = this.isHeaders(headers)
+            ? Array.from(headers.entries())
+            : Object.entries(headers ?? {});
+        return Object.fromEntries(entries.map(([name, value]) => [name, this.isSensitiveHeader(name) ? SENSITIVE_MASK : String(value)]));
+    }
+
+    /**
+     * Whether the headers are a Headers instance, of the global fetch or of a polyfill
+     * @param headers The headers
+     */
+    private static isHeaders(headers: unknown): headers is Headers {
+        return typeof (headers as Headers)?.entries === 'function';
+    }
+
+    /**
+     * Whether a header carries credentials
+     * @param name The header name
+     */
+    public static isSensitiveHeader(name: string): boolean {
+        const lower = name.toLowerCase();
+        return SENSITIVE_HEADER_WORDS.some((word) => lower.includes(word));
+    }
+}
@@ -0,0 +1,36 @@
+import { SensitiveCipher, SensitiveKeyError } from "./sensitive.cipher";
+import { Redaction } from "./redaction";
+
+describe("SensitiveCipher", () => {
+  const cipher = SensitiveCipher.fromSecret("test key");
+
+  it("should open what it sealed", () => {
+    const sealed = cipher.seal("homeowner / hunter2");
+    expect(sealed).not.toContain("hunter2");
+    expect(cipher.open(sealed)).toBe("homeowner / hunter2");
+    expect(cipher.seal("homeowner / hunter2")).not.toBe(sealed);
+  });
+
+  it("should refuse values sealed with another key or tampered with", () => {
+    const sealed = cipher.seal("hunter2");
+    expect(() => SensitiveCipher.fromSecret("other key").open(sealed)).toThrow(SensitiveKeyError);
+    expect(() => SensitiveCipher.fromSecret("other key").check(sealed)).toThrow(SensitiveKeyError);
+    expect(() => cipher.check(sealed)).not.toThrow();
+    expect(() => cipher.open(sealed.slice(0, -4) + "AAAA")).toThrow(SensitiveKeyError);
+    expect(() => cipher.open("hunter2")).toThrow(SensitiveKeyError);
+  });
+
+  it("should need a key in the environment", () => {
+    delete process.env.SENSITIVE_TEST_KEY;
+    expect(() => SensitiveCipher.fromEnv("SENSITIVE_TEST_KEY")).toThrow("SENSITIVE_TEST_KEY is not set");
+  });
+});
+
+describe("Redaction", () => {
+  it("should mask the headers carrying credentials", () => {
+    expect(Redaction.headers({ "Content-Type": "application/json", Authorization: "Bearer abc", "x-api-key": "abc", "X-Webhook-Signature": "sha256=abc" }))
+      .toEqual({ "Content-Type": "application/json", Authorization: "••••••", "x-api-key": "••••••", "X-Webhook-Signature": "••••••" });
+    expect(Redaction.headers(new Headers({ "content-type": "application/json", authorization: "Bearer abc" })))
+      .toEqual({ "content-type": "application/json", authorization: "••••••" });
+  });
+});
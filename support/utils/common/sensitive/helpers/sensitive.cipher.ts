@@ -0,0 +1,94 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import ExtendableError from 'extendable-error';
+
+/**
+ * Shown instead of a sensitive value wherever it could be read: in the sheet, in previews and in logs
+ */
+export const SENSITIVE_MASK = '••••••';
+
+/**
+ * Version prefix of the sealed values, so that the format can change without losing older values
+ */
+const SEALED_PREFIX = 'v1';
+
+/**
+ * A sensitive value that can't be sealed or opened, because the key is missing or isn't the key it was sealed with
+ */
+export class SensitiveKeyError extends ExtendableError {}
+
+/**
+ * Seals sensitive values with AES-256-GCM under a locally configured key, so that they are stored encrypted
+ * and can only be read back by code holding the same key.
+ */
+export class SensitiveCipher {
+    private constructor(private readonly key: Buffer) {}
+
+    /**
+     * Creates a cipher from a key or passphrase of any length, hashed into a 256-bit key
+     * @param secret The key or passphrase
+     * @example
+     * const cipher = SensitiveCipher.fromSecret("correct horse battery staple");
+     */
+    public static fromSecret(secret: string): SensitiveCipher {
+        if (!secret) {
+            throw new SensitiveKeyError('The key of sensitive values is empty');
+        }
+        return new SensitiveCipher(createHash('sha256').update(secret).digest());
+    }
+
+    /**
+     * Creates a cipher from the key held by an environment variable
+     * @param variable The environment variable (default: SENSITIVE_DATA_KEY)
+     * @throws SensitiveKeyError when the variable isn't set
+     */
+    public static fromEnv(variable: string = 'SENSITIVE_DATA_KEY'): SensitiveCipher {
+        const secret = process.env[variable];
+        if (!secret) {
+            throw new SensitiveKeyError(`${variable} is not set in the environment, it encrypts sensitive values`);
+        }
+        return this.fromSecret(secret);
+    }
+
+    /**
+     * Encrypts a value, sealing the same value twice gives different results
+     * @param value The plain value
+     * @returns the sealed value, `v1.<iv>.<tag>.<ciphertext>` in base64
+     */
+    public seal(value: string): string {
+        const iv = randomBytes(12);
+        const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+        const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+        return [SEALED_PREFIX, ...[iv, cipher.getAuthTag(), data].map((part) => part.toString('base64'))].join('.');
+    }
+
+    /**
+     * Decrypts a sealed value
+     * @param sealed The value returned by seal()
+     * @returns the plain value
+     * @throws SensitiveKeyError when the value is malformed or was sealed with another key
+     */
+    public open(sealed: string): string {
+        const [prefix, iv, tag, data] = String(sealed).split('.');
+        if (prefix !== SEALED_PREFIX || !iv || !tag || data === undefined) {
+            throw new SensitiveKeyError('The sensitive value is not a sealed value');
+        }
+        try {
+            const decipher = createDecipheriv('aes-256-gcm', this.key, Buffer.from(iv, 'base64'));
+            decipher.setAuthTag(Buffer.from(tag, 'base64'));
+            return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+        } catch (error) {
+            throw new SensitiveKeyError('The sensitive value can\'t be decrypted with the configured key');
+        }
+    }
+
+    /**
+     * Checks that a sealed value can be decrypted with this key, without revealing it
+     * @param sealed The value returned by seal()
+     * @throws SensitiveKeyError when the value is malformed or was sealed with another key
+     * @example
+     * SensitiveCipher.fromEnv().check(record.metadata.sensitive.ssn);
+     */
+    public check(sealed: string): void {
+        this.open(sealed);
+    }
+}
@@ -0,0 +1,4 @@
+import { SensitiveCipher, SensitiveKeyError, SENSITIVE_MASK } from "./helpers/sensitive.cipher";
+import { Redaction } from "./helpers/redaction";
+
+export { SensitiveCipher, SensitiveKeyError, SENSITIVE_MASK, Redaction };
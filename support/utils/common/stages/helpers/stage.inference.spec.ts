@@ -0,0 +1,35 @@
+import { StageInference } from "./stage.inference";
+
+describe("StageInference", () => {
+  const inference = new StageInference([
+    { name: "Sale" },
+    { name: "Permitting", reachedBy: ["permit_applied_date"], aliases: ["Permit"] },
+    { name: "Install", reachedBy: ["permit_received_date"], aliases: ["Installation"] },
+    { name: "Complete", reachedBy: ["pto_received_date"], aliases: ["PTO Received"] },
+  ]);
+  const getter = (values: Record<string, string>) => (field: string) => values[field];
+
+  it("should infer the furthest stage reached from the milestone dates", () => {
+    expect(inference.infer(getter({}))).toEqual({ stage: "Sale" });
+    expect(inference.infer(getter({ permit_applied_date: "2024-01-01", permit_received_date: "2024-02-01" }))).toEqual({
+      stage: "Install",
+      milestone: "permit_received_date",
+    });
+  });
+
+  it("should resolve aliases regardless of case and punctuation", () => {
+    expect(inference.canonical("pto-received")).toBe("Complete");
+    expect(inference.canonical(" INSTALLATION ")).toBe("Install");
+    expect(inference.canonical("Roofing")).toBeUndefined();
+  });
+
+  it("should report a declared stage contradicting the dates", () => {
+    const check = inference.check(getter({ stage: "Install", pto_received_date: "2024-05-01" }), "stage");
+    expect(check).toEqual({ inferred: { stage: "Complete", milestone: "pto_received_date" }, declared: "Install", matches: false });
+  });
+
+  it("should not report unknown or empty stages", () => {
+    expect(inference.check(getter({ stage: "Roofing", pto_received_date: "2024-05-01" }), "stage").matches).toBe(true);
+    expect(inference.check(getter({ pto_received_date: "2024-05-01" }), "stage").matches).toBe(true);
+  });
+});
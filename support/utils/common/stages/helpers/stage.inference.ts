@@ -0,0 +1,88 @@
+export interface StageDefinition {
+    name: string;
+    // date fields that, once filled, mean the project has reached this stage
+    reachedBy?: string[];
+    // other spellings of the stage found in legacy systems
+    aliases?: string[];
+}
+
+export interface InferredStage {
+    stage: string;
+    // the filled date field the stage was inferred from, none for the first stage
+    milestone?: string;
+}
+
+export interface StageCheck {
+    inferred: InferredStage;
+    // the declared stage, when it is one of the known stages or their aliases
+    declared?: string;
+    matches: boolean;
+}
+
+/**
+ * Derives the stage a record has reached from its milestone dates, given the stages in lifecycle order.
+ * The inferred stage is the last stage with one of its `reachedBy` fields filled, or the first stage when none is.
+ */
+export class StageInference {
+    private readonly names = new Map<string, string>();
+
+    /**
+     * @param stages The stages in lifecycle order
+     */
+    constructor(private readonly stages: StageDefinition[]) {
+        if (stages.length === 0) {
+            throw new Error('StageInference needs at least one stage');
+        }
+        stages.forEach((stage) => {
+            [stage.name, ...(stage.aliases ?? [])].forEach((name) => this.names.set(StageInference.normalize(name), stage.name));
+        });
+    }
+
+    /**
+     * Normalizes a stage name for comparison, ignoring case, spaces and punctuation
+     * @param value The stage name
+     */
+    static normalize(value: unknown): string {
+        return String(value ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+    }
+
+    /**
+     * Infers the furthest stage reached from the milestone dates
+     * @param get Reads a field of the record
+     * @returns the inferred stage and the milestone it was inferred from
+     */
+    infer(get: (field: string) => unknown): InferredStage {
+        for (let i = this.stages.length - 1; i > 0; i--) {
+            const milestone = (this.stages[i].reachedBy ?? []).find((field) => !isEmpty(get(field)));
+            if (milestone) {
+                return { stage: this.stages[i].name, milestone };
+            }
+        }
+        return { stage: this.stages[0].name };
+    }
+
+    /**
+     * Resolves a stage name or alias to the name of a known stage
+     * @param value The stage as written in the record
+     * @returns the stage name, or undefined when the value is empty or unknown
+     */
+    canonical(value: unknown): string | undefined {
+        return isEmpty(value) ? undefined : this.names.get(StageInference.normalize(value));
+    }
+
+    /**
+     * Compares the stage declared in a record with the stage inferred from its milestone dates.
+     * An empty or unknown declared stage can't contradict the dates and always matches.
+     * @param get Reads a field of the record
+     * @param stageField The field holding the declared stage
+     */
+    check(get: (field: string) => unknown, stageField: string): StageCheck {
+        const inferred = this.infer(get);
+        const declared = this.canonical(get(stageField));
+        return { inferred, declared, matches: !declared || declared === inferred.stage };
+    }
+}
+
+function isEmpty(value: unknown): boolean {
+    return value === null || value === undefined || value === '';
+}
@@ -0,0 +1,4 @@
+import { StageInference, StageDefinition, InferredStage, StageCheck } from "./helpers/stage.inference";
+
+export { StageInference };
+export type { StageDefinition, InferredStage, StageCheck };
@@ -0,0 +1,18 @@
+/**
+ * Builds a stand-in for a Flatfile record over plain values, for the validator specs.
+ * Errors and warnings are collected by field key so that specs can assert on them.
+ */
+export const recordOf = (values: Record<string, unknown>) => {
+  const errors: Record<string, string[]> = {};
+  const warnings: Record<string, string[]> = {};
+  return {
+    values,
+    errors,
+    warnings,
+    get: (key: string) => values[key],
+    set: (key: string, value: unknown) => (values[key] = value),
+    addError: (key: string, message: string) => (errors[key] = [...(errors[key] ?? []), message]),
+    addWarning: (key: string, message: string) => (warnings[key] = [...(warnings[key] ?? []), message]),
+    addInfo: () => undefined,
+  };
+};
@@ -0,0 +1,33 @@
+import { RatioValidator } from "./ratio.validation";
+import { recordOf } from "../__fixtures__/record.fixture";
+
+describe("RatioValidator", () => {
+  it("should accept a ratio within bounds", () => {
+    const record = recordOf({ net: 30000, gross: 35000 });
+    expect(RatioValidator.ratio(record, "net", "gross", { max: 1 }, { addError: true })).toBe(true);
+    expect(record.errors).toEqual({});
+  });
+
+  it("should report a ratio out of bounds on the numerator", () => {
+    const record = recordOf({ net: 40000, gross: 35000 });
+    expect(RatioValidator.ratio(record, "net", "gross", { max: 1 }, { addError: true })).toBe(false);
+    expect(record.errors).toEqual({ net: ["net / gross is 1.14, expected at most 1"] });
+  });
+
+  it("should report a ratio out of bounds on both fields", () => {
+    const record = recordOf({ net: 40000, gross: 35000 });
+    RatioValidator.ratio(record, "net", "gross", { max: 1 }, { addError: true, reportOn: "both", errorMsg: "Net exceeds gross" });
+    expect(record.errors).toEqual({ net: ["Net exceeds gross"], gross: ["Net exceeds gross"] });
+  });
+
+  it("should scale the denominator and warn with a label", () => {
+    const record = recordOf({ price: 70000, size: "7.2" });
+    RatioValidator.ratio(record, "price", "size", { min: 1.5, max: 6, scale: 1000 }, { addWarning: true, label: "Price per watt" });
+    expect(record.warnings).toEqual({ price: ["Price per watt is 9.72, expected between 1.5 and 6"] });
+  });
+
+  it("should skip empty fields and a zero denominator", () => {
+    expect(RatioValidator.ratio(recordOf({ net: 10 }), "net", "gross", { max: 1 }, { addError: true })).toBe(true);
+    expect(RatioValidator.ratio(recordOf({ net: 10, gross: 0 }), "net", "gross", { max: 1 }, { addError: true })).toBe(true);
+  });
+});
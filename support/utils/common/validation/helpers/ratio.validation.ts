@@ -0,0 +1,83 @@
+export class RatioValidator {
+    /**
+     * Internal helper to read a numeric field of the record
+     * @param record The record containing the field
+     * @param field The field name to read
+     * @returns the number, or null if the field is empty or not a number
+     */
+    private static numberOf(record: Record<string, any>, field: string): number | null {
+        const value = record.get(field);
+        if (value === null || value === undefined || value === '') {
+            return null;
+        }
+        const num = typeof value === 'number' ? value : Number(value.toString().trim());
+        return isFinite(num) ? num : null;
+    }
+
+    /**
+     * Internal helper to round a number for messages
+     * @param value The number to round
+     */
+    private static round(value: number): string {
+        return Number(value.toPrecision(3)).toString();
+    }
+
+    /**
+     * Validates that the ratio between two numeric fields falls within bounds.
+     * Nothing is checked while either field is empty or the denominator is 0.
+     * @param record The record containing the fields to validate
+     * @param numerator The field name of the numerator
+     * @param denominator The field name of the denominator
+     * @param bounds The accepted ratio:
+     *   - min: Lowest accepted ratio (inclusive)
+     *   - max: Highest accepted ratio (inclusive)
+     *   - scale: Multiplier applied to the denominator, e.g. 1000 to divide a price by kW as watts
+     * @param options Configuration options:
+     *   - addError: If true, adds an error message when validation fails
+     *   - addWarning: If true, adds a warning message when validation fails
+     *   - label: Name of the ratio in messages (default: "numerator / denominator")
+     *   - reportOn: Fields the message is reported on, "numerator" or "both" (default: "numerator")
+     *   - errorMsg: Custom message, `{label}`, `{ratio}`, `{min}` and `{max}` are replaced
+     * @returns boolean indicating if the ratio is within bounds
+     * @example
+     * // Warns when the price per watt is outside $2 to $5
+     * RatioValidator.ratio(record, "net_contract_price", "system_size_kw_dc", {min: 2, max: 5, scale: 1000}, {
+     *   addWarning: true,
+     *   label: "Price per watt"
+     * });
+     */
+    public static ratio(record: Record<string, any>, numerator: string, denominator: string,
+        bounds: {min?: number, max?: number, scale?: number},
+        options?: {addError?: boolean, addWarning?: boolean, label?: string, errorMsg?: string, reportOn?: 'numerator' | 'both'}) {
+
+        const top = this.numberOf(record, numerator);
+        const bottom = this.numberOf(record, denominator);
+        if (top === null || bottom === null || bottom === 0) {
+            return true;
+        }
+
+        const ratio = top / (bottom * (bounds.scale ?? 1));
+        const valid = (bounds.min === undefined || ratio >= bounds.min) && (bounds.max === undefined || ratio <= bounds.max);
+
+        if (!valid) {
+            const label = options?.label || `${numerator} / ${denominator}`;
+            const expected = bounds.min === undefined ? `at most ${bounds.max}` :
+                             bounds.max === undefined ? `at least ${bounds.min}` :
+                             `between ${bounds.min} and ${bounds.max}`;
+            const message = (options?.errorMsg || `{label} is {ratio}, expected ${expected}`)
+                .replace('{label}', label).replace('{ratio}', this.round(ratio))
+                .replace('{min}', String(bounds.min)).replace('{max}', String(bounds.max));
+            const fields = options?.reportOn === 'both' ? [numerator, denominator] : [numerator];
+            for (const field of fields) {
+                if (options?.addError) {
+                    record.addError(field, message);
+                }
+                if (options?.addWarning) {
+                    record.addWarning(field, message);
+                }
+            }
+        }
+
+        return valid;
+    }
+}
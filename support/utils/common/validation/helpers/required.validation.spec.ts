@@ -0,0 +1,53 @@
+import { RequiredValidator } from "./required.validation";
+import { recordOf } from "../__fixtures__/record.fixture";
+
+describe("RequiredValidator", () => {
+  const context = {
+    orders: { stage: ["Sale", "Install", "Inspection", "Complete"] },
+    labels: { stage: "Stage", status: "Status", notes: "Notes", installed: "Installed" },
+  };
+
+  it("should require a field only when the value is one of the listed values", () => {
+    const when = { field: "status", in: ["Canceled"] };
+    const canceled = recordOf({ status: "canceled", notes: "" });
+    expect(RequiredValidator.requiredWhen(canceled, "notes", when, context, { addError: true })).toBe(false);
+    expect(canceled.errors.notes).toEqual(["Notes is required when Status is Canceled"]);
+    expect(RequiredValidator.requiredWhen(recordOf({ status: "Active" }), "notes", when, context, { addError: true })).toBe(true);
+    expect(RequiredValidator.requiredWhen(recordOf({ status: "Canceled", notes: "Lost" }), "notes", when, context)).toBe(true);
+  });
+
+  it("should match lists on any of their items and exclude values", () => {
+    expect(RequiredValidator.applies({ field: "trades", in: ["Storage"] }, () => ["Solar", "Storage"])).toBe(true);
+    expect(RequiredValidator.applies({ field: "trades", in: ["Storage"] }, () => ["Solar"])).toBe(false);
+    expect(RequiredValidator.applies({ field: "ownership", notIn: ["Cash"] }, () => "Loan")).toBe(true);
+    expect(RequiredValidator.applies({ field: "ownership", notIn: ["Cash"] }, () => "Cash")).toBe(false);
+  });
+
+  it("should require a field once an ordered field reaches a step", () => {
+    const when = { field: "stage", atLeast: "Inspection" };
+    const inspected = recordOf({ stage: "Complete" });
+    expect(RequiredValidator.requiredWhen(inspected, "installed", when, context, { addError: true })).toBe(false);
+    expect(inspected.errors.installed).toEqual(["Installed is required when Stage is Inspection or later"]);
+    expect(RequiredValidator.requiredWhen(recordOf({ stage: "Install" }), "installed", when, context)).toBe(true);
+    expect(RequiredValidator.requiredWhen(recordOf({ stage: "Unknown" }), "installed", when, context)).toBe(true);
+    const aliases = { ...context, canonical: { stage: (value: unknown) => (value === "Final Inspection" ? "Inspection" : value) } };
+    expect(RequiredValidator.requiredWhen(recordOf({ stage: "Final Inspection" }), "installed", when, aliases)).toBe(false);
+  });
+
+  it("should require a field only when every condition holds", () => {
+    const when = [{ field: "stage", atLeast: "Install" }, { field: "status", notIn: ["Canceled"] }];
+    expect(RequiredValidator.applies(when, (field) => ({ stage: "Inspection", status: "Active" })[field], context)).toBe(true);
+    expect(RequiredValidator.applies(when, (field) => ({ stage: "Inspection", status: "Canceled" })[field], context)).toBe(false);
+    expect(RequiredValidator.describe(when, context.labels)).toBe("Stage is Install or later and Status isn't Canceled");
+  });
+
+  it("should not require the dates of the stages a canceled project is past", () => {
+    const when = [{ field: "stage", atLeast: "Inspection" }, { field: "status", notIn: ["Canceled"] }];
+    const canceled = recordOf({ stage: "Complete", status: "Canceled", installed: "" });
+    expect(RequiredValidator.requiredWhen(canceled, "installed", when, context, { addError: true })).toBe(true);
+    expect(canceled.errors).toEqual({});
+    const active = recordOf({ stage: "Complete", status: "Active", installed: "" });
+    expect(RequiredValidator.requiredWhen(active, "installed", when, context, { addError: true })).toBe(false);
+    expect(active.errors.installed).toEqual(["Installed is required when Stage is Inspection or later and Status isn't Canceled"]);
+  });
+});
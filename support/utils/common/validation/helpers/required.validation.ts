@@ -0,0 +1,120 @@
+/**
+ * A condition on another field of the record, every property given must hold
+ */
+export interface RequiredCondition {
+    field: string;
+    // the value, or any item of a list, is one of these
+    in?: string[];
+    // the value, and every item of a list, is none of these
+    notIn?: string[];
+    // the value is this step of an ordered field (e.g. a stage) or a later one
+    atLeast?: string;
+}
+
+/**
+ * When a field is required: one condition, or several that must all hold
+ */
+export type RequiredWhen = RequiredCondition | RequiredCondition[];
+
+export interface RequiredContext {
+    // values of the ordered fields in order, e.g. the stages for `atLeast`
+    orders?: Record<string, string[]>;
+    // rewrite the values of a field before they are compared, e.g. stage aliases onto the stage names
+    canonical?: Record<string, (value: unknown) => unknown>;
+    // labels of the fields, used in the messages
+    labels?: Record<string, string>;
+}
+
+type RequiredOptions = {addError?: boolean, addWarning?: boolean, errorMsg?: string};
+
+export class RequiredValidator {
+    /**
+     * Internal helper to tell whether a value is missing
+     */
+    private static isEmpty(value: unknown): boolean {
+        return value === null || value === undefined || String(value).trim() === '' || (Array.isArray(value) && value.length === 0);
+    }
+
+    /**
+     * Internal helper to read a value as a list of lowercase items
+     */
+    private static items(value: unknown): string[] {
+        return (Array.isArray(value) ? value : [value])
+            .filter((item) => !this.isEmpty(item))
+            .map((item) => String(item).trim().toLowerCase());
+    }
+
+    /**
+     * Whether the conditions of a rule hold for a record
+     * @param when The condition or conditions
+     * @param get Reads a field of the record
+     * @param context The order of the ordered fields and the rewrites of the compared values
+     * @returns true when every condition holds
+     * @example
+     * RequiredValidator.applies({ field: "status", in: ["Canceled"] }, (field) => record.get(field)) // true for a canceled project
+     */
+    public static applies(when: RequiredWhen, get: (field: string) => unknown, context: RequiredContext = {}): boolean {
+        return [when].flat().every((condition) => {
+            const canonical = context.canonical?.[condition.field];
+            const items = this.items(canonical ? canonical(get(condition.field)) : get(condition.field));
+            const lower = (values: string[]) => values.map((value) => value.toLowerCase());
+            if (condition.in && !items.some((item) => lower(condition.in).includes(item))) {
+                return false;
+            }
+            if (condition.notIn && items.some((item) => lower(condition.notIn).includes(item))) {
+                return false;
+            }
+            if (condition.atLeast) {
+                const order = lower(context.orders?.[condition.field] ?? []);
+                const position = items.length === 1 ? order.indexOf(items[0]) : -1;
+                if (position === -1 || position < order.indexOf(condition.atLeast.toLowerCase())) {
+                    return false;
+                }
+            }
+            return true;
+        });
+    }
+
+    /**
+     * Describes the conditions of a rule for a message
+     * @param when The condition or conditions
+     * @param labels Labels of the fields
+     * @example
+     * RequiredValidator.describe({ field: "stage", atLeast: "Inspection" }, { stage: "Stage" }) // "Stage is Inspection or later"
+     */
+    public static describe(when: RequiredWhen, labels: Record<string, string> = {}): string {
+        return [when].flat().map((condition) => {
+            const label = labels[condition.field] ?? condition.field;
+            return [
+                condition.in && `${label} is ${condition.in.join(' or ')}`,
+                condition.notIn && `${label} isn't ${condition.notIn.join(' or ')}`,
+                condition.atLeast && `${label} is ${condition.atLeast} or later`,
+            ].filter(Boolean).join(' and ');
+        }).join(' and ');
+    }
+
+    /**
+     * Requires a field when the conditions of a rule hold
+     * @param record The record to validate
+     * @param field The field to require
+     * @param when The condition or conditions
+     * @param context The order of the ordered fields, the rewrites of the compared values and the labels of the fields
+     * @param options Options for the validation (addError, addWarning, errorMsg)
+     * @returns false when the field is required and missing
+     * @example
+     * RequiredValidator.requiredWhen(record, "cancellation_notes", { field: "status", in: ["Canceled"] }, {}, { addError: true });
+     */
+    public static requiredWhen(record: Record<string, any>, field: string, when: RequiredWhen, context: RequiredContext = {}, options?: RequiredOptions): boolean {
+        if (!this.isEmpty(record.get(field)) || !this.applies(when, (key) => record.get(key), context)) {
+            return true;
+        }
+
+        const message = options?.errorMsg || `${context.labels?.[field] ?? field} is required when ${this.describe(when, context.labels)}`;
+        if (options?.addError) {
+            record.addError(field, message);
+        } else if (options?.addWarning) {
+            record.addWarning(field, message);
+        }
+        return false;
+    }
+}
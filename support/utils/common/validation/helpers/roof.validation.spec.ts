@@ -0,0 +1,43 @@
+import { RoofValidator } from "./roof.validation";
+import { recordOf } from "../__fixtures__/record.fixture";
+
+describe("RoofValidator", () => {
+  it("should convert a rise/run pitch to degrees", () => {
+    const record = recordOf({ pitch: "6/12" });
+    expect(RoofValidator.pitch(record, "pitch", { setRecord: true })).toBe(26.6);
+    expect(record.values.pitch).toBe("26.6");
+    expect(RoofValidator.pitch(recordOf({ pitch: "12:12" }), "pitch")).toBe(45);
+    expect(RoofValidator.pitch(recordOf({ pitch: "4 in 12" }), "pitch")).toBe(18.4);
+    expect(RoofValidator.pitch(recordOf({ pitch: "30°" }), "pitch")).toBe(30);
+  });
+
+  it("should convert compass directions to an azimuth", () => {
+    expect(RoofValidator.azimuth(recordOf({ azimuth: "South" }), "azimuth")).toBe(180);
+    expect(RoofValidator.azimuth(recordOf({ azimuth: "SSW" }), "azimuth")).toBe(202.5);
+    expect(RoofValidator.azimuth(recordOf({ azimuth: "south-west" }), "azimuth")).toBe(225);
+    expect(RoofValidator.azimuth(recordOf({ azimuth: "East" }), "azimuth")).toBe(90);
+    expect(RoofValidator.azimuth(recordOf({ azimuth: "195" }), "azimuth")).toBe(195);
+  });
+
+  it("should flag angles out of range or unreadable", () => {
+    const record = recordOf({ pitch: "95", tilt: "steep", azimuth: "400" });
+    expect(RoofValidator.pitch(record, "pitch", { addError: true })).toBeNull();
+    expect(RoofValidator.tilt(record, "tilt", { addError: true })).toBeNull();
+    expect(RoofValidator.azimuth(record, "azimuth", "north", { addError: true })).toBeNull();
+    expect(record.errors).toEqual({
+      pitch: ["Pitch must be between 0 and 90 degrees"],
+      tilt: ["Tilt must be between 0 and 90 degrees"],
+      azimuth: ["Azimuth must be between 0 and 360 degrees"],
+    });
+  });
+
+  it("should warn on arrays facing away from the equator", () => {
+    const north = recordOf({ azimuth: "NNE" });
+    RoofValidator.azimuth(north, "azimuth", "north", { addWarning: true });
+    expect(north.warnings).toEqual({ azimuth: ["An azimuth of 22.5° faces away from the equator, please confirm"] });
+
+    const south = recordOf({ azimuth: "N" });
+    RoofValidator.azimuth(south, "azimuth", "south", { addWarning: true });
+    expect(south.warnings).toEqual({});
+  });
+});
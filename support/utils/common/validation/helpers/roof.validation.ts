@@ -0,0 +1,137 @@
+export enum RoofValidationType {
+    PITCH = 'pitch',
+    TILT = 'tilt',
+    AZIMUTH = 'azimuth'
+}
+
+type RoofOptions = {setRecord?: boolean, addError?: boolean, addWarning?: boolean, addInfo?: boolean, errorMsg?: string};
+
+/**
+ * Azimuth of the 16 compass points, clockwise from north
+ */
+const COMPASS_POINTS = ['n', 'nne', 'ne', 'ene', 'e', 'ese', 'se', 'sse', 's', 'ssw', 'sw', 'wsw', 'w', 'wnw', 'nw', 'nnw'];
+
+export class RoofValidator {
+    /**
+     * Internal helper to read an angle in degrees, e.g. "25", "25°" or "25 degrees"
+     * @param value The value to read
+     * @returns the angle, or null if the value isn't an angle in degrees
+     */
+    private static parseDegrees(value: string): number | null {
+        const match = value.match(/^([+-]?\d*\.?\d+)\s*(°|deg|degs|degree|degrees)?$/i);
+        return match ? Number(match[1]) : null;
+    }
+
+    /**
+     * Internal helper to read a roofer pitch, the rise over a run (usually 12), e.g. "6/12", "6:12" or "6 in 12"
+     * @param value The value to read
+     * @returns the pitch in degrees, or null if the value isn't a pitch
+     */
+    private static parsePitch(value: string): number | null {
+        const match = value.match(/^(\d*\.?\d+)\s*(?:\/|:|in)\s*(\d*\.?\d+)(?:\s*pitch)?$/i);
+        if (!match || Number(match[2]) === 0) {
+            return null;
+        }
+        return Math.atan(Number(match[1]) / Number(match[2])) * 180 / Math.PI;
+    }
+
+    /**
+     * Internal helper to read a compass direction, e.g. "S", "SSW", "South" or "south-south west"
+     * @param value The value to read
+     * @returns the azimuth in degrees, or null if the value isn't a compass direction
+     */
+    private static parseCompass(value: string): number | null {
+        const point = value.toLowerCase()
+            .replace(/[\s_-]/g, '')
+            .replace(/north/g, 'n').replace(/south/g, 's').replace(/east/g, 'e').replace(/west/g, 'w');
+        const index = COMPASS_POINTS.indexOf(point);
+        return index === -1 ? null : index * 22.5;
+    }
+
+    /**
+     * Internal helper to read, check the range of and rewrite an angle field
+     * @returns the angle in degrees, or null if the field is empty or invalid
+     */
+    private static angle(record: Record<string, any>, field: string, parsers: Array<(value: string) => number | null>,
+        max: number, description: string, options?: RoofOptions): number | null {
+        const value = record.get(field);
+        if (value === null || value === undefined || value.toString().trim() === '') {
+            return null;
+        }
+
+        const raw = value.toString().trim();
+        const parsed = parsers.map((parse) => parse.call(this, raw)).find((angle) => angle !== null);
+        const angle = parsed === undefined ? null : Math.round(parsed * 10) / 10;
+        if (angle === null || angle < 0 || angle > max) {
+            if (options?.addError) {
+                record.addError(field, options?.errorMsg || `${description} must be between 0 and ${max} degrees`);
+            }
+            return null;
+        }
+
+        if (options?.setRecord && String(angle) !== raw) {
+            record.set(field, String(angle));
+            if (options?.addInfo) {
+                record.addInfo(field, `Converted from ${raw}`);
+            }
+        }
+        return angle;
+    }
+
+    /**
+     * Validates a roof pitch, given in degrees or as rise/run (e.g. "6/12" is 26.6°), between 0 and 90 degrees
+     * @param record The record containing the field to validate
+     * @param field The field name to validate
+     * @param options Configuration options:
+     *   - setRecord: If true, sets the pitch in degrees back to the record
+     *   - addInfo: If true, adds an info message when the value was converted
+     *   - addError: If true, adds an error message when the pitch is invalid or out of range
+     *   - errorMsg: Custom error message to display on validation failure
+     * @returns the pitch in degrees, or null if the field is empty or invalid
+     * @example
+     * RoofValidator.pitch(record, "pitch_angle_deg", {setRecord: true, addInfo: true, addError: true});
+     */
+    public static pitch(record: Record<string, any>, field: string, options?: RoofOptions) {
+        return this.angle(record, field, [this.parseDegrees, this.parsePitch], 90, 'Pitch', options);
+    }
+
+    /**
+     * Validates a panel tilt, given in degrees or as rise/run like a pitch, between 0 and 90 degrees
+     * @param record The record containing the field to validate
+     * @param field The field name to validate
+     * @param options Configuration options, see pitch()
+     * @returns the tilt in degrees, or null if the field is empty or invalid
+     * @example
+     * RoofValidator.tilt(record, "tilt_angle_deg", {setRecord: true, addError: true});
+     */
+    public static tilt(record: Record<string, any>, field: string, options?: RoofOptions) {
+        return this.angle(record, field, [this.parseDegrees, this.parsePitch], 90, 'Tilt', options);
+    }
+
+    /**
+     * Validates an array azimuth, given in degrees clockwise from north or as a compass direction
+     * (e.g. "South" is 180°, "SSW" is 202.5°), between 0 and 360 degrees.
+     * An array facing away from the equator produces little and is flagged with a warning.
+     * @param record The record containing the field to validate
+     * @param field The field name to validate
+     * @param hemisphere The hemisphere of the sites (default: "north"), the equator is due south in the north
+     * @param options Configuration options, see pitch(), and:
+     *   - addWarning: If true, adds a warning when the array faces more than 90 degrees away from the equator
+     * @returns the azimuth in degrees, or null if the field is empty or invalid
+     * @example
+     * RoofValidator.azimuth(record, "azimuth_angle_deg", "north", {setRecord: true, addError: true, addWarning: true});
+     */
+    public static azimuth(record: Record<string, any>, field: string, hemisphere: 'north' | 'south' = 'north', options?: RoofOptions) {
+        const azimuth = this.angle(record, field, [this.parseDegrees, this.parseCompass], 360, 'Azimuth', options);
+        if (azimuth === null) {
+            return null;
+        }
+
+        const equator = hemisphere === 'north' ? 180 : 0;
+        const deviation = Math.abs(((azimuth - equator + 540) % 360) - 180);
+        if (deviation > 90 && options?.addWarning) {
+            record.addWarning(field, `An azimuth of ${azimuth}° faces away from the equator, please confirm`);
+        }
+        return azimuth;
+    }
+}
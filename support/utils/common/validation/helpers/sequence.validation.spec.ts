@@ -0,0 +1,31 @@
+import { SequenceValidator } from "./sequence.validation";
+import { recordOf } from "../__fixtures__/record.fixture";
+
+describe("SequenceValidator", () => {
+  const fields = ["permit_applied_date", "permit_received_date", "pto_applied_date", "pto_received_date"];
+
+  it("should accept dates in order and skip empty fields", () => {
+    const record = recordOf({ permit_applied_date: "2024-01-01", pto_applied_date: "2024-03-01", pto_received_date: "2024-03-01" });
+    expect(SequenceValidator.inOrder(record, fields, { addError: true })).toBe(true);
+    expect(record.errors).toEqual({});
+  });
+
+  it("should report an out of order pair on both fields", () => {
+    const record = recordOf({ permit_applied_date: "2024-02-01", permit_received_date: "2024-01-15" });
+    expect(SequenceValidator.inOrder(record, fields, { addError: true })).toBe(false);
+    expect(record.errors.permit_received_date).toEqual(["permit_received_date (2024-01-15) is before permit_applied_date (2024-02-01)"]);
+    expect(record.errors.permit_applied_date).toEqual(["permit_applied_date (2024-02-01) is after permit_received_date (2024-01-15)"]);
+  });
+
+  it("should compare with the latest earlier milestone", () => {
+    const record = recordOf({ permit_applied_date: "2024-05-01", permit_received_date: "2024-01-01", pto_applied_date: "2024-03-01" });
+    SequenceValidator.inOrder(record, fields, { addError: true });
+    expect(Object.keys(record.errors).sort()).toEqual(["permit_applied_date", "permit_received_date", "pto_applied_date"]);
+  });
+
+  it("should report completed milestones in the future", () => {
+    const record = recordOf({ pto_received_date: "2999-01-01", pto_applied_date: "2020-01-01" });
+    expect(SequenceValidator.notInFuture(record, fields, { addError: true })).toBe(false);
+    expect(Object.keys(record.errors)).toEqual(["pto_received_date"]);
+  });
+});
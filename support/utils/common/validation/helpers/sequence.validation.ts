@@ -0,0 +1,110 @@
+import * as chrono from 'chrono-node';
+
+export enum SequenceValidationType {
+    IN_ORDER = 'inOrder',
+    NOT_IN_FUTURE = 'notInFuture'
+}
+
+export class SequenceValidator {
+    /**
+     * Internal helper to parse a field of the record into a Date object
+     * @param record The record containing the field
+     * @param field The field name to parse
+     * @returns Date object or null if the field is empty or not a date
+     */
+    private static dateOf(record: Record<string, any>, field: string): Date | null {
+        const value = record.get(field);
+        if (value === null || value === undefined || value === '') {
+            return null;
+        }
+        try {
+            return chrono.parseDate(value.toString());
+        } catch (error) {
+            return null;
+        }
+    }
+
+    /**
+     * Internal helper to render a date in error messages
+     * @param date The date to render
+     * @returns the date as YYYY-MM-DD
+     */
+    private static formatDate(date: Date): string {
+        const month = (date.getMonth() + 1).toString().padStart(2, '0');
+        const day = date.getDate().toString().padStart(2, '0');
+        return `${date.getFullYear()}-${month}-${day}`;
+    }
+
+    /**
+     * Validates that date fields follow each other chronologically.
+     * Empty fields are skipped, each filled date is compared with the latest date of the fields before it
+     * and both fields of an out of order pair get an error naming the other one.
+     * @param record The record containing the fields to validate
+     * @param fields The field names in their expected chronological order
+     * @param options Configuration options:
+     *   - addError: If true, adds an error message to both fields of an out of order pair
+     *   - errorMsg: Custom error message, `{field}`, `{date}`, `{other}` and `{otherDate}` are replaced
+     * @returns boolean indicating if the dates are in chronological order
+     * @example
+     * // Validates that a permit is received after it was applied for and PTO is received after it was applied for
+     * SequenceValidator.inOrder(record, ["permit_applied_date", "permit_received_date", "pto_applied_date", "pto_received_date"], {
+     *   addError: true
+     * });
+     */
+    public static inOrder(record: Record<string, any>, fields: string[], options?: {addError?: boolean, errorMsg?: string}) {
+        let valid = true;
+        let latest: {field: string, date: Date} | null = null;
+
+        for (const field of fields) {
+            const date = this.dateOf(record, field);
+            if (!date) {
+                continue;
+            }
+            if (latest && this.formatDate(date) < this.formatDate(latest.date)) {
+                valid = false;
+                if (options?.addError) {
+                    const message = (template: string, a: string, aDate: Date, b: string, bDate: Date) => template
+                        .replace('{field}', a).replace('{date}', this.formatDate(aDate))
+                        .replace('{other}', b).replace('{otherDate}', this.formatDate(bDate));
+                    record.addError(field, message(options?.errorMsg || '{field} ({date}) is before {other} ({otherDate})', field, date, latest.field, latest.date));
+                    record.addError(latest.field, message(options?.errorMsg || '{field} ({date}) is after {other} ({otherDate})', latest.field, latest.date, field, date));
+                }
+                continue;
+            }
+            latest = {field, date};
+        }
+
+        return valid;
+    }
+
+    /**
+     * Validates that date fields of completed events are not in the future
+     * @param record The record containing the fields to validate
+     * @param fields The field names to validate
+     * @param options Configuration options:
+     *   - addError: If true, adds an error message to every date in the future
+     *   - errorMsg: Custom error message, `{field}` and `{date}` are replaced
+     * @returns boolean indicating if no date is in the future
+     * @example
+     * // Validates that PTO wasn't received in the future
+     * SequenceValidator.notInFuture(record, ["pto_received_date"], {addError: true});
+     */
+    public static notInFuture(record: Record<string, any>, fields: string[], options?: {addError?: boolean, errorMsg?: string}) {
+        const today = this.formatDate(new Date());
+        let valid = true;
+
+        for (const field of fields) {
+            const date = this.dateOf(record, field);
+            if (date && this.formatDate(date) > today) {
+                valid = false;
+                if (options?.addError) {
+                    const errorMsg = (options?.errorMsg || '{field} ({date}) is in the future')
+                        .replace('{field}', field).replace('{date}', this.formatDate(date));
+                    record.addError(field, errorMsg);
+                }
+            }
+        }
+
+        return valid;
+    }
+}
@@ -0,0 +1,28 @@
+import { SolarValidator } from "./solar.validation";
+import { recordOf } from "../__fixtures__/record.fixture";
+
+describe("SolarValidator", () => {
+  it("should warn on a DC/AC ratio outside the band", () => {
+    expect(SolarValidator.dcAcRatio(recordOf({ dc: 8, ac: 7 }), "dc", "ac", { min: 1, max: 1.5 }, { addWarning: true })).toBe(true);
+    const record = recordOf({ dc: 12, ac: 7 });
+    expect(SolarValidator.dcAcRatio(record, "dc", "ac", { min: 1, max: 1.5 }, { addWarning: true })).toBe(false);
+    expect(record.warnings).toEqual({ dc: ["DC/AC ratio is 1.71, expected between 1 and 1.5"] });
+  });
+
+  it("should accept a project size matching either the DC or the AC size", () => {
+    expect(SolarValidator.projectSize(recordOf({ size: 7.2, dc: 7.3, ac: 6 }), "size", "dc", "ac", 0.05)).toBe(true);
+    expect(SolarValidator.projectSize(recordOf({ size: 6, dc: 7.3, ac: 6.1 }), "size", "dc", "ac", 0.05)).toBe(true);
+    const record = recordOf({ size: 10, dc: 7.3, ac: 6.1 });
+    expect(SolarValidator.projectSize(record, "size", "dc", "ac", 0.05, { addWarning: true })).toBe(false);
+    expect(Object.keys(record.warnings)).toEqual(["size"]);
+  });
+
+  it("should flag a battery without the storage trade and the other way around", () => {
+    expect(SolarValidator.storage(recordOf({ battery: 13.5, trades: ["Solar", "Storage"] }), "battery", "trades")).toBe(true);
+    expect(SolarValidator.storage(recordOf({ battery: 0, trades: ["Solar"] }), "battery", "trades")).toBe(true);
+    const record = recordOf({ battery: 13.5, trades: ["Solar"] });
+    expect(SolarValidator.storage(record, "battery", "trades", "Storage", { addWarning: true })).toBe(false);
+    expect(Object.keys(record.warnings)).toEqual(["battery", "trades"]);
+    expect(SolarValidator.storage(recordOf({ trades: "Solar, Storage" }), "battery", "trades")).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+import { RatioValidator } from './ratio.validation';
+
+export enum SolarValidationType {
+    DC_AC_RATIO = 'dcAcRatio',
+    PROJECT_SIZE = 'projectSize',
+    STORAGE = 'storage'
+}
+
+type SolarOptions = {addError?: boolean, addWarning?: boolean, errorMsg?: string};
+
+export class SolarValidator {
+    /**
+     * Internal helper to read a numeric field of the record
+     * @param record The record containing the field
+     * @param field The field name to read
+     * @returns the number, or null if the field is empty or not a number
+     */
+    private static numberOf(record: Record<string, any>, field: string): number | null {
+        const value = record.get(field);
+        if (value === null || value === undefined || value === '') {
+            return null;
+        }
+        const num = typeof value === 'number' ? value : Number(value.toString().trim());
+        return isFinite(num) ? num : null;
+    }
+
+    /**
+     * Internal helper to report a failed check on several fields
+     * @param record The record containing the fields
+     * @param fields The fields the message is reported on
+     * @param message The message
+     * @param options Whether to add the message as an error and/or a warning
+     */
+    private static report(record: Record<string, any>, fields: string[], message: string, options?: SolarOptions) {
+        fields.forEach((field) => {
+            if (options?.addError) {
+                record.addError(field, message);
+            }
+            if (options?.addWarning) {
+                record.addWarning(field, message);
+            }
+        });
+    }
+
+    /**
+     * Validates that the DC/AC ratio of the system falls within a band, inverters are usually undersized
+     * @param record The record containing the fields to validate
+     * @param dcField The field name of the DC size
+     * @param acField The field name of the AC size
+     * @param band The accepted DC/AC ratio (default: 1.0 to 1.5)
+     * @param options Configuration options:
+     *   - addError: If true, adds an error message on the DC size when validation fails
+     *   - addWarning: If true, adds a warning message on the DC size when validation fails
+     *   - errorMsg: Custom message, `{ratio}`, `{min}` and `{max}` are replaced
+     * @returns boolean indicating if the ratio is within the band
+     * @example
+     * SolarValidator.dcAcRatio(record, "system_size_kw_dc", "system_size_kw_ac", {min: 1, max: 1.5}, {addWarning: true});
+     */
+    public static dcAcRatio(record: Record<string, any>, dcField: string, acField: string,
+        band: {min?: number, max?: number} = {min: 1, max: 1.5}, options?: SolarOptions) {
+        return RatioValidator.ratio(record, dcField, acField, band, {label: 'DC/AC ratio', ...options});
+    }
+
+    /**
+     * Validates that the project size matches the DC or the AC size of the system within a tolerance
+     * @param record The record containing the fields to validate
+     * @param projectSizeField The field name of the project size
+     * @param dcField The field name of the DC size
+     * @param acField The field name of the AC size
+     * @param tolerance The accepted relative difference (default: 0.05, i.e. 5%)
+     * @param options Configuration options:
+     *   - addError: If true, adds an error message on the project size when validation fails
+     *   - addWarning: If true, adds a warning message on the project size when validation fails
+     *   - errorMsg: Custom message, `{size}`, `{dc}` and `{ac}` are replaced
+     * @returns boolean indicating if the project size matches either size
+     * @example
+     * SolarValidator.projectSize(record, "project_size", "system_size_kw_dc", "system_size_kw_ac", 0.05, {addWarning: true});
+     */
+    public static projectSize(record: Record<string, any>, projectSizeField: string, dcField: string, acField: string,
+        tolerance: number = 0.05, options?: SolarOptions) {
+        const size = this.numberOf(record, projectSizeField);
+        const sizes = [this.numberOf(record, dcField), this.numberOf(record, acField)];
+        if (size === null || sizes.every((s) => !s)) {
+            return true;
+        }
+
+        const valid = sizes.some((s) => s && Math.abs(size - s) <= tolerance * s);
+        if (!valid) {
+            const message = (options?.errorMsg || 'Project size ({size} kW) matches neither the DC ({dc} kW) nor the AC ({ac} kW) system size')
+                .replace('{size}', String(size)).replace('{dc}', String(sizes[0] ?? '-')).replace('{ac}', String(sizes[1] ?? '-'));
+            this.report(record, [projectSizeField], message, options);
+        }
+        return valid;
+    }
+
+    /**
+     * Validates that a battery capacity is given exactly when the storage trade is selected
+     * @param record The record containing the fields to validate
+     * @param batteryField The field name of the battery capacity
+     * @param tradesField The field name of the trades (an enum-list)
+     * @param storageTrade The trade meaning the project includes storage (default: "Storage")
+     * @param options Configuration options:
+     *   - addError: If true, adds an error message on both fields when validation fails
+     *   - addWarning: If true, adds a warning message on both fields when validation fails
+     * @returns boolean indicating if the battery capacity and the trades agree
+     * @example
+     * SolarValidator.storage(record, "battery_kwh", "trades", "Storage", {addWarning: true});
+     */
+    public static storage(record: Record<string, any>, batteryField: string, tradesField: string,
+        storageTrade: string = 'Storage', options?: SolarOptions) {
+        const battery = this.numberOf(record, batteryField);
+        const rawTrades = record.get(tradesField);
+        const trades: string[] = Array.isArray(rawTrades) ? rawTrades : String(rawTrades ?? '').split(/[,;]/);
+        const hasStorage = trades.some((trade) => String(trade).trim().toLowerCase() === storageTrade.toLowerCase());
+        const hasBattery = !!battery && battery > 0;
+
+        if (hasBattery && !hasStorage) {
+            this.report(record, [batteryField, tradesField], `A ${battery} kWh battery is given but "${storageTrade}" is not among the trades`, options);
+            return false;
+        }
+        if (!hasBattery && hasStorage) {
+            this.report(record, [batteryField, tradesField], `"${storageTrade}" is among the trades but no battery capacity is given`, options);
+            return false;
+        }
+        return true;
+    }
+}
@@ -13,6 +13,9 @@ export enum StringValidationType {
 
 export type PhoneFormat = PhoneNumberFormat.E164 | PhoneNumberFormat.NATIONAL | PhoneNumberFormat.INTERNATIONAL;
 
+// RFC 5322 compliant email regex
+const EMAIL_PATTERN = /^(([^<>()\[\]\\.,;:\s@"]+(\.[^<>()\[\]\\.,;:\s@"]+)*)|(".+"))@((\[[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}])|(([a-zA-Z\-0-9]+\.)+[a-zA-Z]{2,}))$/i;
+
 export class StringValidator {
     /**
      * Formats a string value
@@ -203,14 +206,23 @@ export class StringValidator {
      * });
      */
     public static isEmail(record: Record<string, any>, field: string, options?: {addError?: boolean, validateOnEmpty?: boolean, errorMsg?: string}) {
-        // RFC 5322 compliant email regex
-        const emailPattern = /^(([^<>()\[\]\\.,;:\s@"]+(\.[^<>()\[\]\\.,;:\s@"]+)*)|(".+"))@((\[[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}])|(([a-zA-Z\-0-9]+\.)+[a-zA-Z]{2,}))$/i;
-        return this.matchesPattern(record, field, emailPattern, {
+        return this.matchesPattern(record, field, EMAIL_PATTERN, {
             ...options,
             errorMsg: options?.errorMsg || "Please enter a valid email address"
         });
     }
 
+    /**
+     * Checks a single value against the email pattern used by isEmail, e.g. one item of a list
+     * @param value The value to check
+     * @returns boolean indicating if the value is a valid email
+     * @example
+     * StringValidator.isEmailAddress("jane@example.com") // true
+     */
+    public static isEmailAddress(value: unknown): boolean {
+        return typeof value === 'string' && EMAIL_PATTERN.test(value);
+    }
+
     /**
      * Validates if a string is a valid phone number
      * @param record The record containing the field to validate
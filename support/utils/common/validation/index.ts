@@ -1,10 +1,16 @@
-import { externalConstraint } from "@flatfile/plugin-constraints";
+import { externalConstraint, externalSheetConstraint } from "@flatfile/plugin-constraints";
 import { DateValidator, DateValidationType   } from "./helpers/date.validation";
 import { NumberValidator, NumberValidationType } from "./helpers/number.validation";
 import { StringValidator, StringValidationType } from "./helpers/string.validation";
+import { SequenceValidator, SequenceValidationType } from "./helpers/sequence.validation";
+import { RatioValidator } from "./helpers/ratio.validation";
+import { SolarValidator, SolarValidationType } from "./helpers/solar.validation";
+import { RoofValidator, RoofValidationType } from "./helpers/roof.validation";
+import { RequiredValidator, RequiredCondition, RequiredWhen, RequiredContext } from "./helpers/required.validation";
 import FlatfileListener from "@flatfile/listener";
 
-export { DateValidator, NumberValidator, StringValidator, DateValidationType, NumberValidationType, StringValidationType };
+export { DateValidator, NumberValidator, StringValidator, SequenceValidator, RatioValidator, SolarValidator, RoofValidator, RequiredValidator, DateValidationType, NumberValidationType, StringValidationType, SequenceValidationType, SolarValidationType, RoofValidationType };
+export type { RequiredCondition, RequiredWhen, RequiredContext };
 
 export enum ValidationType {
     VALIDATE = "validate",
@@ -151,3 +157,63 @@ export function addStringValidator(listener: FlatfileListener) {
       })
     );
 }
+
+export function addSequenceValidator(listener: FlatfileListener) {
+    listener.use(
+      externalSheetConstraint("SequenceValidator", (values, keys, { config, record }) => {
+        switch(config.type) {
+          case SequenceValidationType.IN_ORDER:
+            SequenceValidator.inOrder(record, keys, config.options);
+            break;
+          case SequenceValidationType.NOT_IN_FUTURE:
+            SequenceValidator.notInFuture(record, keys, config.options);
+            break;
+        }
+      })
+    );
+}
+
+export function addRatioValidator(listener: FlatfileListener) {
+    listener.use(
+      externalSheetConstraint("RatioValidator", (values, keys, { config, record }) => {
+        const [numerator, denominator] = keys;
+        RatioValidator.ratio(record, numerator, denominator, config.bounds, config.options);
+      })
+    );
+}
+
+export function addSolarValidator(listener: FlatfileListener) {
+    listener.use(
+      externalSheetConstraint("SolarValidator", (values, keys, { config, record }) => {
+        switch(config.type) {
+          case SolarValidationType.DC_AC_RATIO:
+            SolarValidator.dcAcRatio(record, keys[0], keys[1], config.band, config.options);
+            break;
+          case SolarValidationType.PROJECT_SIZE:
+            SolarValidator.projectSize(record, keys[0], keys[1], keys[2], config.tolerance, config.options);
+            break;
+          case SolarValidationType.STORAGE:
+            SolarValidator.storage(record, keys[0], keys[1], config.storageTrade, config.options);
+            break;
+        }
+      })
+    );
+}
+
+export function addRoofValidator(listener: FlatfileListener) {
+    listener.use(
+      externalConstraint("RoofValidator", (value, key, { config, record }) => {
+        switch(config.type) {
+          case RoofValidationType.PITCH:
+            RoofValidator.pitch(record, key, config.options);
+            break;
+          case RoofValidationType.TILT:
+            RoofValidator.tilt(record, key, config.options);
+            break;
+          case RoofValidationType.AZIMUTH:
+            RoofValidator.azimuth(record, key, config.hemisphere, config.options);
+            break;
+        }
+      })
+    );
+}
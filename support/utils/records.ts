@@ -13,10 +13,13 @@ export function formatRecord(obj: SimpleRecord): Flatfile.RecordData {
   );
 }
 
-export function toSimpleRecord(r: Flatfile.Record_): SimpleRecord {
-  const obj = Object.fromEntries(Object.entries(r.values).map(([key, value]) => [key, value.value] as [string, any]));
+export function toSimpleRecord(r: Flatfile.Record_): RecordWithMeta {
+  const obj: RecordWithMeta = Object.fromEntries(Object.entries(r.values).map(([key, value]) => [key, value.value] as [string, any]));
   obj.id = r.id;
-  return obj as SimpleRecord;
+  if (r.metadata) {
+    obj.metadata = r.metadata;
+  }
+  return obj;
 }
 
 export function toSimpleFilteredRecord(r: Flatfile.Record_, keyFilter: string[]): SimpleRecord {
@@ -52,13 +55,16 @@ export function toNarrowRecord(r: SimpleRecord, keyFilter: string[]): SimpleReco
 }
 
 export type Primitive = string | number | null | boolean;
-export type SimpleRecord = Record<string, Primitive>;
+// list fields (string-list, enum-list) hold arrays
+export type SimpleRecord = Record<string, Primitive | string[]>;
+export type RecordMetadata = Record<string, unknown>;
+export type RecordWithMeta<M = RecordMetadata> = SimpleRecord & { metadata?: M };
 export type SafeRecord = Record<string, string | undefined | null>;
 
-export function formatUpdate(obj: SimpleRecord) {
+export function formatUpdate(obj: RecordWithMeta) {
   return {
     id: obj.id as string,
-    metadata: obj.metadata as any,
+    metadata: obj.metadata,
     values: formatRecord(obj),
   };
 }
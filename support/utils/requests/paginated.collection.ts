@@ -14,6 +14,13 @@ export class PaginatedCollection<T> implements PromiseLike<T[]> {
    */
   private _tracker?: ProgressTracker;
 
+  /**
+   * Progress module name and expected record total used when reporting pages
+   * @private
+   */
+  private _trackerModule = "Loading records";
+  private _trackerTotal?: number;
+
   constructor(
     protected factory: (page: number, pageSize: number) => GetRequest<T[]>,
     protected options?: {
@@ -27,10 +34,17 @@ export class PaginatedCollection<T> implements PromiseLike<T[]> {
   }
 
   /**
-   * Provide a progress tracking callback
+   * Provide a progress tracking callback, reported after every page is loaded
+   *
+   * @param tracker
+   * @param module name of the progress module to report on
+   * @param total expected number of records, used to compute the percentage
    */
-  track(tracker: ProgressTracker) {
+  track(tracker: ProgressTracker, module?: string, total?: number) {
     this._tracker = tracker;
+    this._trackerModule = module ?? this._trackerModule;
+    this._trackerTotal = total;
+    return this;
   }
 
   /**
@@ -50,6 +64,49 @@ export class PaginatedCollection<T> implements PromiseLike<T[]> {
     });
   }
 
+  /**
+   * Handle each page sequentially as it's loaded without pooling records in memory
+   *
+   * @returns the number of records processed
+   */
+  async each(cb: (records: T[], page: number) => void | Promise<void>): Promise<number> {
+    let page = 1;
+    let loaded = 0;
+    while (true) {
+      const section = await this.factory(page, this.pageSize);
+      if (!Array.isArray(section) || !section.length) {
+        break;
+      }
+      await cb(section, page++);
+      loaded += section.length;
+      await this.reportPage(loaded);
+      if (section.length < this.pageSize) {
+        break;
+      }
+    }
+    await this._tracker?.complete(this._trackerModule, `${this._trackerModule} (${loaded})`);
+    return loaded;
+  }
+
+  /**
+   * Load pages sequentially until a record matches, the remaining pages are never loaded
+   *
+   * @returns the first matching record, or undefined when none matches
+   */
+  async find(predicate: (record: T) => boolean): Promise<T | undefined> {
+    let page = 1;
+    while (true) {
+      const section = await this.factory(page++, this.pageSize);
+      if (!Array.isArray(section) || !section.length) {
+        return undefined;
+      }
+      const found = section.find(predicate);
+      if (found !== undefined || section.length < this.pageSize) {
+        return found;
+      }
+    }
+  }
+
   /**
    * Wait for all records (this will pool in memory, be careful)
    */
@@ -71,12 +128,15 @@ export class PaginatedCollection<T> implements PromiseLike<T[]> {
     } else {
       const out = [];
       let page = 1;
+      let loaded = 0;
       while (true) {
         const section = await this.factory(page++, this.pageSize).then((r) => (cb ? cb(r) : r));
         if (!Array.isArray(section)) {
           break;
         }
         out.push(section);
+        loaded += section.length;
+        await this.reportPage(loaded);
 
         if (!section?.length || section.length < this.pageSize) {
           break;
@@ -86,6 +146,20 @@ export class PaginatedCollection<T> implements PromiseLike<T[]> {
     }
   }
 
+  /**
+   * Report the records loaded so far to the registered tracker
+   *
+   * @param loaded
+   */
+  private async reportPage(loaded: number) {
+    if (!this._tracker) {
+      return;
+    }
+    const percent = this._trackerTotal ? Math.min(99, Math.floor((loaded / this._trackerTotal) * 100)) : 50;
+    const of = this._trackerTotal ? ` of ${this._trackerTotal}` : "";
+    await this._tracker.report(this._trackerModule, percent, `${this._trackerModule} (${loaded}${of})`);
+  }
+
   /**
    * When awaited, actually run the stuff
    *
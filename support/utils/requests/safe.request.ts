@@ -58,6 +58,13 @@ export abstract class SafeRequest<T> implements PromiseLike<T> {
   private nextAttemptDelay: number = 0;
   private _isRun = false;
 
+  /**
+   * Number of times the request has been sent, including retries
+   */
+  get attemptCount() {
+    return this.attempts;
+  }
+
   protected abstract execute(): Promise<T>;
 
   protected _headers: Record<string, string> = {};
@@ -73,10 +80,17 @@ export abstract class SafeRequest<T> implements PromiseLike<T> {
     return this.fetch("GET");
   }
 
-  protected async fetch(method: HttpMethods): Promise<T> {
-    const headers = {
+  /**
+   * Headers authorizing the request, the Flatfile API key by default
+   */
+  protected authorization(): Record<string, string> {
+    return {
       Authorization: `Bearer ${process.env.FLATFILE_API_KEY || process.env.FLATFILE_BEARER_TOKEN}`,
     };
+  }
+
+  protected async fetch(method: HttpMethods): Promise<T> {
+    const headers = this.authorization();
     if (!this.isRaw) {
       headers["Content-Type"] = "application/json";
     }
@@ -0,0 +1,53 @@
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { startWebhookReceiver } from "../../start.webhook.receiver";
+import { FatalError } from "./request.errors";
+import { WebhookRequest } from "./webhook.request";
+import { signPayload, verifySignature } from "./webhook.signature";
+
+describe("webhook signature", () => {
+  it("should verify a payload signed with the same secret", () => {
+    const body = JSON.stringify({ batch: 1 });
+    expect(verifySignature(body, signPayload(body, "secret"), "secret")).toBe(true);
+    expect(verifySignature(body, signPayload(body, "other"), "secret")).toBe(false);
+    expect(verifySignature(body, undefined, "secret")).toBe(false);
+  });
+});
+
+describe("WebhookRequest", () => {
+  let server: Server;
+  const urlOf = (s: Server) => `http://localhost:${(s.address() as AddressInfo).port}/hook`;
+  const listening = (s: Server) => new Promise((resolve) => s.on("listening", resolve));
+
+  afterEach(() => new Promise((resolve) => server.close(resolve)));
+
+  it("should be accepted by the local receiver with the shared secret", async () => {
+    server = startWebhookReceiver(0, "secret");
+    await listening(server);
+    const res = await new WebhookRequest(urlOf(server), { batch: 1 }, { secret: "secret", idempotencyKey: "wb-1" });
+    expect(res).toEqual({ status: 202, body: "Accepted" });
+  });
+
+  it("should be rejected by the local receiver with another secret", async () => {
+    server = startWebhookReceiver(0, "secret");
+    await listening(server);
+    const req = new WebhookRequest(urlOf(server), { batch: 1 }, { secret: "wrong", idempotencyKey: "wb-1" });
+    await expect(req).rejects.toBeInstanceOf(FatalError);
+  });
+
+  it("should retry recoverable errors and never send the Flatfile API key", async () => {
+    let attempts = 0;
+    let authorization: string | undefined;
+    server = createServer((req, res) => {
+      authorization = req.headers.authorization;
+      res.writeHead(++attempts < 2 ? 503 : 202).end();
+    }).listen(0);
+    await listening(server);
+    const req = new WebhookRequest(urlOf(server), { batch: 1 }, { secret: "secret", idempotencyKey: "wb-1" });
+    req.timeoutDelay = 1;
+    await req;
+    expect(attempts).toBe(2);
+    expect(req.attemptCount).toBe(2);
+    expect(authorization).toBeUndefined();
+  });
+});
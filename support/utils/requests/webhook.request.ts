@@ -0,0 +1,61 @@
+import { PostRequest } from "./post.request";
+import { IDEMPOTENCY_HEADER, SIGNATURE_HEADER, signPayload } from "./webhook.signature";
+
+/**
+ * What the receiver answered to a delivery
+ */
+export interface WebhookResponse {
+  status: number;
+  body: string;
+}
+
+/**
+ * Posts a signed JSON payload to an external webhook.
+ * The body is signed with the shared secret and carries an idempotency key so the receiver can
+ * safely ignore a retried delivery. Recoverable errors (5xx, timeouts, rate limits) are retried with back-off.
+ */
+export class WebhookRequest extends PostRequest<WebhookResponse, Record<string, any>> {
+  public readonly path: string;
+  public isApiRequest = false;
+  public retry = true;
+  // Read the response as text, receivers don't always answer with JSON
+  public isRaw = true;
+  private readonly body: string;
+  private status?: number;
+
+  constructor(
+    url: string,
+    payload: Record<string, any>,
+    options: { secret: string; idempotencyKey: string; headers?: Record<string, string> },
+  ) {
+    super([], payload);
+    this.path = url;
+    this.body = JSON.stringify(payload);
+    this.setHeaders({
+      ...options.headers,
+      "Content-Type": "application/json",
+      [SIGNATURE_HEADER]: signPayload(this.body, options.secret),
+      [IDEMPOTENCY_HEADER]: options.idempotencyKey,
+    });
+  }
+
+  /**
+   * Never send the Flatfile API key to a third party
+   */
+  protected authorization(): Record<string, string> {
+    return {};
+  }
+
+  protected serializeBody() {
+    return this.body;
+  }
+
+  protected async handleResponseCodes(res: Response): Promise<true> {
+    this.status = res.status;
+    return super.handleResponseCodes(res);
+  }
+
+  protected async parseBody(body?: any): Promise<WebhookResponse> {
+    return { status: this.status, body: body ?? "" };
+  }
+}
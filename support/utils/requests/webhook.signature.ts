@@ -0,0 +1,28 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export const SIGNATURE_HEADER = "X-Signature-256";
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+/**
+ * Signs a request body with HMAC-SHA256
+ *
+ * @param body the exact body sent over the wire
+ * @param secret the secret shared with the receiver
+ * @returns the signature header value, e.g. `sha256=5d41...`
+ */
+export function signPayload(body: string, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+/**
+ * Verifies the signature header of a received body in constant time
+ *
+ * @param body the raw body as received
+ * @param signature the value of the signature header
+ * @param secret the secret shared with the sender
+ */
+export function verifySignature(body: string, signature: string | undefined, secret: string): boolean {
+  const expected = Buffer.from(signPayload(body, secret));
+  const actual = Buffer.from(signature ?? "");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}